@@ -1,74 +1,227 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
-import { GameState, TileItem, RoundStats, StageProgress } from './types';
-import { WORDS, COLORS } from './constants';
-import { generateTilePool } from './utils/helpers';
+import React, { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo } from 'react';
+import { GameState, TileItem, RoundStats, LetterError, StageProgress, WordList, WordData, InputMode, DiffPart, SessionType, SaveData, Profile, ProfileSettings, HintType, ChallengeMode, TileDifficulty, BeeGame, LanguageCode, GameEvent, OutfitItem, OutfitSlot, Rewards } from './types';
+import { COLORS, DEFAULT_LANGUAGE, DEFAULT_WORD_LIST, BUILT_IN_LIST_ID, WORDS_PER_STAGE, TIMED_START_SECONDS, TIMED_BONUS_SECONDS, STARTING_LIVES, CHALLENGE_LABELS, DAILY_WORD_COUNT, DAILY_TILE_DIFFICULTY } from './constants';
+import { generateTilePool, starsForScore, sessionScore } from './utils/helpers';
+import { buildStages, savedStageLayout, alignStageProgress, mergeStageProgress } from './utils/stageBuilder';
+import { splitSyllables, SYLLABLE_SEPARATOR } from './utils/syllables';
+import { shuffle, createRandomSeed, deriveRandom } from './utils/random';
+import { recordPersonalBest } from './utils/challenges';
+import { loadAllLists, saveCustomLists } from './utils/wordLists';
+import { getLanguage, listLanguage, toWordCase, isLetterOf, isPrefilled, fillPrefilled, eraseSpelledLetter, spelledLetters } from './utils/languages';
+import { diffSpelling, countSpellingErrors, diffToLetterErrors } from './utils/spellingDiff';
+import { analyzeErrors, buildPracticeWords, PatternReport } from './utils/errorPatterns';
+import { getDailyWords, dailySeed, markForRound, startDailyResult, recordDailyMark, findDailyResult, currentStreak } from './utils/daily';
+import { toDateKey } from './utils/analytics';
+import { readAssignmentFromHash, createResultCode } from './utils/assignments';
+import { createBeeGame, recordBeeTurn, isBeeOver, beeStandings } from './utils/bee';
+import { appendRoundStats } from './utils/history';
+import { applyRoundToDeck, getDueWords } from './utils/review';
+import { loadSaveData, saveSaveData, createProfile } from './utils/storage';
+import { onUpdateReady, applyUpdate, cacheForOffline } from './utils/pwa';
+import { applyTheme, isMotionReduced } from './utils/theme';
+import { applyGameEvent } from './utils/achievements';
+import { buyItem, canBuy, equipItem, unequipSlot } from './utils/rewards';
+import { createStaticFileProvider, createWebSpeechProvider, createGeminiProvider, speakWithProviders, SpeechRequest } from './utils/speech';
 import KittyMascot from './components/KittyMascot';
-import { Play, Volume2, Home, Loader2, ChevronRight, Lock, Star, FastForward, Sparkles } from 'lucide-react';
+import ProfilePicker from './components/ProfilePicker';
+import SettingsPanel from './components/SettingsPanel';
+import WordListManager from './components/WordListManager';
+import OnScreenKeyboard from './components/OnScreenKeyboard';
+import SpellingDiffView from './components/SpellingDiffView';
+import WordInfoPanel from './components/WordInfoPanel';
+import HintBar from './components/HintBar';
+import ChallengeResults from './components/ChallengeResults';
+import PersonalBestTable from './components/PersonalBestTable';
+import ParentGate from './components/ParentGate';
+import ParentDashboard from './components/ParentDashboard';
+import PracticeReport from './components/PracticeReport';
+import DailyResults from './components/DailyResults';
+import BeeSetup from './components/BeeSetup';
+import BeeScoreboard from './components/BeeScoreboard';
+import BeeStandings from './components/BeeStandings';
+import ResultCodeCard from './components/ResultCodeCard';
+import KeyboardGrid from './components/KeyboardGrid';
+import RewardsShop from './components/RewardsShop';
+import AchievementToast from './components/AchievementToast';
+import { Play, Volume2, Home, Loader2, ChevronRight, Lock, Star, FastForward, Sparkles, BookOpen, Grid3x3, Keyboard, RotateCcw, Settings, VolumeX, Timer, Heart, WifiOff, RefreshCw, BarChart3, ClipboardList, AlertTriangle, Target, Flame, CalendarDays, Coins, Shirt } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
-function decodeBase64(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
-
-const WORDS_PER_STAGE = 10;
+// Keyboard attempts may run a little past the word length so extra letters can be diffed.
+const MAX_TYPED_EXTRA = 5;
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.START);
   const [currentStageIdx, setCurrentStageIdx] = useState(0);
   const [currentWordInStageIdx, setCurrentWordInStageIdx] = useState(0);
+  const [sessionType, setSessionType] = useState<SessionType>('stage');
+  const [stageWords, setStageWords] = useState<WordData[]>([]);
   const [userTyped, setUserTyped] = useState<string>('');
   const [tilePool, setTilePool] = useState<TileItem[]>([]);
   const [mistakes, setMistakes] = useState(0);
+  const [letterErrors, setLetterErrors] = useState<LetterError[]>([]);
   const [startTime, setStartTime] = useState(0);
   const [sessionHistory, setSessionHistory] = useState<RoundStats[]>([]);
   const [shake, setShake] = useState(false);
   const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
-  
-  const [stagesProgress, setStagesProgress] = useState<StageProgress[]>(() => {
-    const saved = localStorage.getItem('kitty_speller_progress');
-    if (saved) return JSON.parse(saved);
-    return Array.from({ length: 10 }, (_, i) => ({
-      stars: 0,
-      isUnlocked: i === 0,
-      correctCount: 0
-    }));
-  });
+  const [speechError, setSpeechError] = useState<string | null>(null);
+  const [wordLists, setWordLists] = useState<WordList[]>(loadAllLists);
+  const [lastDiff, setLastDiff] = useState<DiffPart[]>([]);
+  const [hintsUsed, setHintsUsed] = useState<HintType[]>([]);
+  const [highlightedTileId, setHighlightedTileId] = useState<string | null>(null);
+  const [playMode, setPlayMode] = useState<'classic' | 'daily' | 'bee' | ChallengeMode>('classic');
+  const [dailyDate, setDailyDate] = useState(() => toDateKey(Date.now()));
+  const [timeLeft, setTimeLeft] = useState(TIMED_START_SECONDS);
+  const [lives, setLives] = useState(STARTING_LIVES);
+  const [bee, setBee] = useState<BeeGame | null>(null);
+  const [challengeOutcome, setChallengeOutcome] = useState<{ score: number; rank: number } | null>(null);
+  const [saveData, setSaveData] = useState<SaveData>(loadSaveData);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [updateReady, setUpdateReady] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [resultCode, setResultCode] = useState<string | null>(null);
+  // Read out by the live region; the count makes a repeated message announce again.
+  const [announcement, setAnnouncement] = useState({ text: '', count: 0 });
+
+  const profile = saveData.profiles.find(p => p.id === saveData.activeProfileId) ?? saveData.profiles[0];
+  const { activeListId } = profile.settings;
+  const reviewDeck = profile.reviewDeck;
+  const activeList = wordLists.find(l => l.id === activeListId) ?? DEFAULT_WORD_LIST;
+  // A teacher's assignment fixes these settings while its list is active.
+  const playSettings = activeList.assignment ? { ...profile.settings, ...activeList.assignment } : profile.settings;
+  const { inputMode } = playSettings;
+  const words = activeList.words;
+  // Saves from before stages were built by difficulty cut the list in its own order at this size.
+  const legacyStageSize = activeList.assignment?.wordsPerStage ?? WORDS_PER_STAGE;
+  const savedProgress = profile.progress[activeList.id];
+  const stages = useMemo(
+    () => savedStageLayout(savedProgress ?? [], words, playSettings.wordsPerStage, legacyStageSize) ?? buildStages(words, playSettings.wordsPerStage),
+    [savedProgress, words, playSettings.wordsPerStage, legacyStageSize],
+  );
+  const stageCount = stages.length;
+  const stagesProgress = alignStageProgress(savedProgress ?? [], stages, words, legacyStageSize);
+
+  useEffect(() => {
+    saveSaveData(saveData);
+  }, [saveData]);
+
+  // Before paint, so switching players never flashes the previous player's theme.
+  useLayoutEffect(() => {
+    applyTheme(profile.settings);
+  }, [profile.settings]);
 
   useEffect(() => {
-    localStorage.setItem('kitty_speller_progress', JSON.stringify(stagesProgress));
-  }, [stagesProgress]);
+    saveCustomLists(wordLists);
+  }, [wordLists]);
+
+  // Opening a teacher's link adds its list (once) and goes straight to its stages.
+  useEffect(() => {
+    readAssignmentFromHash(window.location.hash)
+      .then(list => {
+        if (!list) return;
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        setWordLists(prev => (prev.some(l => l.id === list.id) ? prev : [...prev, list]));
+        updateSettings({ activeListId: list.id });
+        setGameState(GameState.STAGE_SELECT);
+      })
+      .catch(err => {
+        console.error('Could not open assignment link:', err);
+        setLinkError('This assignment link looks broken. Ask your teacher to send it again.');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (gameState !== GameState.GAME_OVER || sessionType !== 'stage' || !activeList.assignment) {
+      setResultCode(null);
+      return;
+    }
+    let cancelled = false;
+    createResultCode(activeList, profile, stagesProgress.map(p => p.stars)).then(code => { if (!cancelled) setResultCode(code); });
+    return () => { cancelled = true; };
+  }, [gameState]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    const unsubscribe = onUpdateReady(() => setUpdateReady(true));
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      unsubscribe();
+    };
+  }, []);
+
+  // Built-in audio is precached by the service worker; imported lists are cached when picked.
+  useEffect(() => {
+    if (activeList.isBuiltIn) return;
+    cacheForOffline(activeList.words.flatMap(w => (w.audio ? [w.audio] : [])));
+  }, [activeList]);
+
+  const updateProfile = (update: (p: Profile) => Profile) => {
+    setSaveData(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => (p.id === prev.activeProfileId ? update(p) : p)),
+    }));
+  };
+
+  const setStagesProgress = (update: (prev: StageProgress[]) => StageProgress[]) => {
+    updateProfile(p => {
+      const saved = p.progress[activeList.id] ?? [];
+      const next = update(alignStageProgress(saved, stages, words, legacyStageSize));
+      return { ...p, progress: { ...p.progress, [activeList.id]: mergeStageProgress(saved, next, words, legacyStageSize) } };
+    });
+  };
+
+  const updateSettings = (changes: Partial<ProfileSettings>) => {
+    updateProfile(p => ({ ...p, settings: { ...p.settings, ...changes } }));
+  };
+
+  const updateRewards = (update: (r: Rewards) => Rewards) => {
+    updateProfile(p => ({ ...p, rewards: update(p.rewards) }));
+  };
+
+  // Queued after any progress update for the same event, so achievements see the new state.
+  const reportEvent = (event: GameEvent) => {
+    const now = Date.now();
+    updateProfile(p => applyGameEvent(p, event, now));
+  };
+
+  const buyOutfitItem = (item: OutfitItem) => {
+    updateRewards(r => (canBuy(r, item) ? buyItem(r, item) : r));
+  };
+
+  const setInputMode = (mode: InputMode) => updateSettings({ inputMode: mode });
 
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Read by initRound as soon as a session starts, before any state update lands.
+  const sessionRandomRef = useRef<{ seed: number; tileDifficulty: TileDifficulty }>({ seed: 0, tileDifficulty: 'medium' });
   const audioContextRef = useRef<AudioContext | null>(null);
 
-  const globalWordIdx = (currentStageIdx * WORDS_PER_STAGE) + currentWordInStageIdx;
-  const currentWord = WORDS[globalWordIdx]?.word.toUpperCase() || '';
+  // Session words can come from several lists, so each entry is looked up by identity to find its language.
+  const entryLanguages = useMemo(() => new Map(wordLists.flatMap(l => l.words.map(w => [w, listLanguage(l)] as const))), [wordLists]);
+  const languageOf = useCallback((entry: WordData | undefined): LanguageCode => (entry && entryLanguages.get(entry)) || DEFAULT_LANGUAGE, [entryLanguages]);
+
+  const currentEntry = stageWords[currentWordInStageIdx];
+  const currentLanguage = languageOf(currentEntry);
+  const currentWord = currentEntry ? toWordCase(currentEntry.word, currentLanguage) : '';
+  const stageWordCount = stageWords.length;
+  const isChallenge = sessionType === 'timed' || sessionType === 'lives';
+  // Challenges and bee turns are scored against a clock, lives or classmates, so hints there would be free points.
+  const hintsAvailable = playSettings.hintsEnabled && !isChallenge && sessionType !== 'bee';
+  const sessionTitle = isChallenge ? CHALLENGE_LABELS[sessionType as ChallengeMode]
+    : sessionType === 'review' ? 'Review'
+    : sessionType === 'practice' ? 'Practice'
+    : sessionType === 'daily' ? 'Daily Challenge'
+    : sessionType === 'bee' ? 'Class Bee'
+    : `Stage ${currentStageIdx + 1}`;
+  const syllableBreaks = new Set<number>();
+  if (hintsUsed.includes('syllables')) {
+    splitSyllables(currentWord).reduce((pos, syllable) => {
+      if (pos > 0) syllableBreaks.add(pos);
+      return pos + syllable.length;
+    }, 0);
+  }
+  const dueReviewWords = getDueWords(reviewDeck, Date.now(), playSettings.wordsPerStage);
 
   const getAudioContext = () => {
     if (!audioContextRef.current) {
@@ -77,160 +230,587 @@ const App: React.FC = () => {
     return audioContextRef.current;
   };
 
-  const playTTSFallback = async (text: string) => {
-    setIsGeneratingAudio(true);
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: `Say clearly: ${text}` }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-        },
-      });
+  const speechProviders = useMemo(() => [
+    createStaticFileProvider(() => audioRef.current),
+    createWebSpeechProvider(),
+    createGeminiProvider({ getAudioContext, onGenerating: setIsGeneratingAudio }),
+  ], []);
 
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        const ctx = getAudioContext();
-        if (ctx.state === 'suspended') await ctx.resume();
-        const audioBuffer = await decodeAudioData(decodeBase64(base64Audio), ctx, 24000, 1);
-        const source = ctx.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(ctx.destination);
-        source.start();
-      }
+  const speak = useCallback(async (req: SpeechRequest) => {
+    setSpeechError(null);
+    try {
+      await speakWithProviders(speechProviders, profile.settings.speechOrder, req);
     } catch (err) {
-      console.error("TTS Fallback failed:", err);
-    } finally {
-      setIsGeneratingAudio(false);
+      console.error("Speech failed:", err);
+      setSpeechError(`Kitty can't say "${req.text}" right now. Check the sound settings or your connection.`);
     }
-  };
+  }, [speechProviders, profile.settings.speechOrder]);
 
-  const playWordAudio = useCallback((idx: number) => {
-    if (audioRef.current && WORDS[idx]) {
-      audioRef.current.pause();
-      audioRef.current.src = WORDS[idx].audio;
-      audioRef.current.load();
-      audioRef.current.play().catch(() => playTTSFallback(WORDS[idx].word));
-    }
-  }, []);
+  const playWordAudio = useCallback((entry: WordData | undefined) => {
+    if (entry) speak({ text: entry.word, audio: entry.audio, lang: getLanguage(languageOf(entry)).locale });
+  }, [speak, languageOf]);
 
-  const initRound = useCallback((stageIdx: number, wordInStageIdx: number) => {
-    const globalIdx = (stageIdx * WORDS_PER_STAGE) + wordInStageIdx;
-    if (globalIdx >= WORDS.length || wordInStageIdx >= WORDS_PER_STAGE) {
+  const initRound = useCallback((roundWords: WordData[], wordInStageIdx: number) => {
+    const entry = roundWords[wordInStageIdx];
+    if (!entry) {
       setGameState(GameState.GAME_OVER);
       return;
     }
 
-    setTilePool(generateTilePool(WORDS[globalIdx].word.toUpperCase()));
-    setUserTyped('');
+    const { seed, tileDifficulty } = sessionRandomRef.current;
+    const language = languageOf(entry);
+    const word = toWordCase(entry.word, language);
+    setTilePool(generateTilePool(word, tileDifficulty, deriveRandom(seed, 'round', wordInStageIdx), language));
+    setUserTyped(fillPrefilled('', word));
     setMistakes(0);
+    setLetterErrors([]);
+    setHintsUsed([]);
+    setHighlightedTileId(null);
     setStartTime(Date.now());
     setGameState(GameState.PLAYING);
     
-    setTimeout(() => playWordAudio(globalIdx), 600);
-  }, [playWordAudio]);
+    setTimeout(() => playWordAudio(entry), 600);
+  }, [playWordAudio, languageOf]);
 
-  const handleStageEnd = () => {
-    const correctCount = sessionHistory.filter(h => !h.skipped).length;
-    let stars = 0;
-    if (correctCount === 10) stars = 3;
-    else if (correctCount >= 7) stars = 2;
-    else if (correctCount >= 3) stars = 1;
+  const recordRound = (stat: RoundStats) => {
+    setSessionHistory(prev => [...prev, stat]);
+    // Classroom players aren't profiles, so bee turns stay out of this player's stats.
+    if (sessionType === 'bee') return;
+    updateProfile(p => ({
+      ...p,
+      history: appendRoundStats(p.history, sessionType === 'stage' ? { ...stat, listId: activeList.id } : stat),
+      reviewDeck: applyRoundToDeck(p.reviewDeck, stat, stat.playedAt),
+      daily: sessionType === 'daily' ? recordDailyMark(p.daily, dailyDate, currentWordInStageIdx, markForRound(stat)) : p.daily,
+    }));
+    reportEvent({ type: 'round', stat });
+  };
+
+  const handleStageEnd = (history: RoundStats[]) => {
+    if (sessionType === 'daily') {
+      finishDaily();
+      return;
+    }
+    setGameState(GameState.GAME_OVER);
+    if (sessionType === 'review') reportEvent({ type: 'review' });
+    if (sessionType !== 'stage') return;
+    const correctCount = history.filter(h => h.correct).length;
+    const stars = starsForScore(sessionScore(history), stageWordCount);
 
     setStagesProgress(prev => {
       const next = [...prev];
       const stage = next[currentStageIdx];
-      if (stars > stage.stars) stage.stars = stars;
-      stage.correctCount = Math.max(stage.correctCount, correctCount);
-      if (stars >= 1 && currentStageIdx < 9) next[currentStageIdx + 1].isUnlocked = true;
+      next[currentStageIdx] = { ...stage, stars: Math.max(stage.stars, stars), correctCount: Math.max(stage.correctCount, correctCount) };
+      if (stars >= 1 && currentStageIdx < stageCount - 1) next[currentStageIdx + 1] = { ...next[currentStageIdx + 1], isUnlocked: true };
       return next;
     });
-    setGameState(GameState.GAME_OVER);
+    const previousStars = stagesProgress[currentStageIdx].stars;
+    const listStars = stagesProgress.map((p, i) => (i === currentStageIdx ? Math.max(p.stars, stars) : p.stars));
+    reportEvent({ type: 'stage', previousStars, stars, listStars });
   };
 
-  const handleWin = () => {
-    confetti({ particleCount: 150, spread: 70, origin: { y: 0.6 }, colors: ['#f472b6', '#a855f7', '#ec4899'] });
-    const stat: RoundStats = { word: currentWord, mistakes, timeSpent: Math.round((Date.now() - startTime) / 1000), skipped: false };
-    setSessionHistory(prev => [...prev, stat]);
+  // Each word's mark was saved as it was played, so finishing only pays out and shows the result.
+  const finishDaily = () => {
+    const now = Date.now();
+    updateProfile(p => applyGameEvent(p, { type: 'daily', streak: currentStreak(p.daily.results, dailyDate) }, now));
+    setGameState(GameState.DAILY_OVER);
+  };
+
+  const endChallenge = (history: RoundStats[]) => {
+    const mode = sessionType as ChallengeMode;
+    const score = history.filter(h => h.correct).length;
+    const { bests, rank } = recordPersonalBest(profile.challengeBests[mode], { mode, score, listName: activeList.name, achievedAt: Date.now() });
+    updateProfile(p => ({ ...p, challengeBests: { ...p.challengeBests, [mode]: bests } }));
+    reportEvent({ type: 'challenge', mode, score });
+    setChallengeOutcome({ score, rank });
+    setGameState(GameState.CHALLENGE_OVER);
+  };
+
+  // Returns true when that was the last life.
+  const loseLife = (): boolean => {
+    if (sessionType !== 'lives') return false;
+    const left = lives - 1;
+    setLives(left);
+    return left <= 0;
+  };
+
+  const handleWin = (hints: HintType[] = hintsUsed) => {
+    if (!isMotionReduced(profile.settings)) confetti({ particleCount: 150, spread: 70, origin: { y: 0.6 }, colors: ['#f472b6', '#a855f7', '#ec4899'] });
+    if (sessionType === 'timed' && mistakes === 0 && hints.length === 0) setTimeLeft(t => t + TIMED_BONUS_SECONDS);
+    const stat: RoundStats = { word: currentWord, mistakes, timeSpent: Math.round((Date.now() - startTime) / 1000), skipped: false, correct: true, inputMode, hintsUsed: hints, letterErrors, playedAt: Date.now() };
+    recordRound(stat);
     setGameState(GameState.CELEBRATING);
   };
 
   const skipWord = () => {
-    const stat: RoundStats = { word: currentWord, mistakes: 0, timeSpent: 0, skipped: true };
-    setSessionHistory(prev => [...prev, stat]);
+    const stat: RoundStats = { word: currentWord, mistakes: 0, timeSpent: 0, skipped: true, correct: false, inputMode, playedAt: Date.now() };
+    recordRound(stat);
+    const history = [...sessionHistory, stat];
+    if (loseLife()) endChallenge(history);
+    else advance(history);
+  };
+
+  // Challenges and bees run until they're over, not until the words are, so top the queue up with another shuffle of the list.
+  const extendQueue = (nextIdx: number): WordData[] =>
+    nextIdx < stageWords.length ? stageWords : [...stageWords, ...shuffle(deriveRandom(sessionRandomRef.current.seed, 'queue', stageWords.length), words)];
+
+  const advance = (history: RoundStats[]) => {
+    if (sessionType === 'bee') {
+      passTurn(history[history.length - 1]);
+      return;
+    }
     const nextIdx = currentWordInStageIdx + 1;
-    if (nextIdx < WORDS_PER_STAGE) {
+    if (isChallenge) {
+      if (sessionType === 'lives' && lives <= 0) {
+        endChallenge(history);
+        return;
+      }
+      const roundWords = extendQueue(nextIdx);
+      setStageWords(roundWords);
       setCurrentWordInStageIdx(nextIdx);
-      initRound(currentStageIdx, nextIdx);
+      initRound(roundWords, nextIdx);
+    } else if (nextIdx < stageWordCount) {
+      setCurrentWordInStageIdx(nextIdx);
+      initRound(stageWords, nextIdx);
     } else {
-      handleStageEnd();
+      handleStageEnd(history);
     }
   };
 
-  const nextWord = () => {
-    const nextIdx = currentWordInStageIdx + 1;
-    if (nextIdx < WORDS_PER_STAGE) {
-      setCurrentWordInStageIdx(nextIdx);
-      initRound(currentStageIdx, nextIdx);
-    } else {
-      handleStageEnd();
+  const nextWord = () => advance(sessionHistory);
+
+  const passTurn = (stat: RoundStats) => {
+    const next = recordBeeTurn(bee!, stat);
+    setBee(next);
+    if (isBeeOver(next)) {
+      setGameState(GameState.BEE_OVER);
+      return;
     }
+    const nextIdx = currentWordInStageIdx + 1;
+    const roundWords = extendQueue(nextIdx);
+    setStageWords(roundWords);
+    setCurrentWordInStageIdx(nextIdx);
+    setGameState(GameState.BEE_HANDOFF);
+  };
+
+  const prepareSession = (type: SessionType, roundWords: WordData[], seed: number) => {
+    sessionRandomRef.current = { seed, tileDifficulty: type === 'daily' ? DAILY_TILE_DIFFICULTY : playSettings.tileDifficulty };
+    setSessionType(type);
+    setStageWords(roundWords);
+    setCurrentWordInStageIdx(0);
+    setSessionHistory([]);
+  };
+
+  const startSession = (type: SessionType, roundWords: WordData[], seed = createRandomSeed()) => {
+    prepareSession(type, roundWords, seed);
+    initRound(roundWords, 0);
+  };
+
+  // The first player gets the hand-off screen too, so nobody hears their word early.
+  const startBee = (names: string[], rounds: number, elimination: boolean) => {
+    const seed = createRandomSeed();
+    setBee(createBeeGame(names, rounds, elimination));
+    prepareSession('bee', shuffle(deriveRandom(seed, 'queue', 0), words), seed);
+    setGameState(GameState.BEE_HANDOFF);
   };
 
   const selectStage = (idx: number) => {
     if (!stagesProgress[idx].isUnlocked) return;
     setCurrentStageIdx(idx);
-    setCurrentWordInStageIdx(0);
-    setSessionHistory([]);
-    initRound(idx, 0);
+    startSession('stage', stages[idx]);
+  };
+
+  // Review words may come from any saved list; fall back to TTS-only entries for unknown ones.
+  const findWordData = (word: string): WordData =>
+    [activeList, ...wordLists].flatMap(l => l.words).find(w => w.word.toUpperCase() === word) ?? { word };
+
+  const startReview = () => {
+    if (dueReviewWords.length === 0) return;
+    startSession('review', dueReviewWords.map(findWordData));
+  };
+
+  const startPractice = (pattern: PatternReport) => {
+    const pool = [...words, ...wordLists.filter(l => l.id !== activeList.id).flatMap(l => l.words)];
+    startSession('practice', buildPracticeWords(pattern, pool, playSettings.wordsPerStage));
+  };
+
+  const startChallenge = (mode: ChallengeMode) => {
+    setTimeLeft(TIMED_START_SECONDS);
+    setLives(STARTING_LIVES);
+    setChallengeOutcome(null);
+    const seed = createRandomSeed();
+    startSession(mode, shuffle(deriveRandom(seed, 'queue', 0), words), seed);
+  };
+
+  // Always the built-in words, so everyone gets the same puzzle whatever list they have picked.
+  const startDaily = () => {
+    const date = toDateKey(Date.now());
+    setDailyDate(date);
+    if (findDailyResult(profile.daily, date)) {
+      setGameState(GameState.DAILY_OVER);
+      return;
+    }
+    const dailyWords = getDailyWords(date, DEFAULT_WORD_LIST.words);
+    updateProfile(p => ({ ...p, daily: startDailyResult(p.daily, date, dailyWords.length) }));
+    startSession('daily', dailyWords, dailySeed(date));
+  };
+
+  const showDailyResult = () => {
+    setDailyDate(toDateKey(Date.now()));
+    setGameState(GameState.DAILY_OVER);
+  };
+
+  const replaySession = () => {
+    if (sessionType === 'review') startReview();
+    else if (sessionType === 'practice') startSession('practice', stageWords);
+    else if (isChallenge) startChallenge(sessionType as ChallengeMode);
+    else selectStage(currentStageIdx);
+  };
+
+  useEffect(() => {
+    if (sessionType !== 'timed' || gameState !== GameState.PLAYING) return;
+    const id = setInterval(() => setTimeLeft(t => Math.max(0, t - 1)), 1000);
+    return () => clearInterval(id);
+  }, [sessionType, gameState]);
+
+  useEffect(() => {
+    if (sessionType === 'timed' && gameState === GameState.PLAYING && timeLeft <= 0) endChallenge(sessionHistory);
+  }, [timeLeft]);
+
+  const activateWordList = (list: WordList) => updateSettings({ activeListId: list.id });
+
+  const selectWordList = (id: string) => {
+    activateWordList(wordLists.find(l => l.id === id) ?? DEFAULT_WORD_LIST);
+  };
+
+  const saveWordList = (list: WordList) => {
+    setWordLists(prev => [...prev, list]);
+    activateWordList(list);
+  };
+
+  const deleteWordList = (id: string) => {
+    setWordLists(prev => prev.filter(l => l.id !== id));
+    // Lists are shared, so the deleted list's progress goes from every profile.
+    setSaveData(prev => ({
+      ...prev,
+      profiles: prev.profiles.map(p => {
+        const { [id]: _removed, ...progress } = p.progress;
+        const settings = p.settings.activeListId === id ? { ...p.settings, activeListId: BUILT_IN_LIST_ID } : p.settings;
+        return { ...p, progress, settings };
+      }),
+    }));
+  };
+
+  const switchProfile = (id: string) => {
+    setSaveData(prev => ({ ...prev, activeProfileId: id }));
+  };
+
+  const addProfile = (name: string) => {
+    const created = createProfile(name);
+    setSaveData(prev => ({ ...prev, activeProfileId: created.id, profiles: [...prev.profiles, created] }));
+  };
+
+  const renameProfile = (id: string, name: string) => {
+    if (!name.trim()) return;
+    setSaveData(prev => ({ ...prev, profiles: prev.profiles.map(p => (p.id === id ? { ...p, name: name.trim() } : p)) }));
+  };
+
+  const deleteProfile = (id: string) => {
+    setSaveData(prev => {
+      if (prev.profiles.length <= 1) return prev;
+      const profiles = prev.profiles.filter(p => p.id !== id);
+      const activeProfileId = prev.activeProfileId === id ? profiles[0].id : prev.activeProfileId;
+      return { ...prev, activeProfileId, profiles };
+    });
+  };
+
+  // A restored backup replaces the same player on this device, or joins as a new one.
+  const importPlayer = (imported: Profile) => {
+    setSaveData(prev => ({
+      ...prev,
+      profiles: prev.profiles.some(p => p.id === imported.id)
+        ? prev.profiles.map(p => (p.id === imported.id ? imported : p))
+        : [...prev.profiles, imported],
+    }));
+  };
+
+  const typeLetter = (letter: string) => {
+    if (gameState !== GameState.PLAYING) return;
+    setUserTyped(prev => prev.length < currentWord.length + MAX_TYPED_EXTRA ? fillPrefilled(prev + letter, currentWord) : prev);
+  };
+
+  const eraseLetter = () => {
+    if (gameState !== GameState.PLAYING) return;
+    setUserTyped(prev => eraseSpelledLetter(prev, currentWord));
+  };
+
+  const submitSpelling = () => {
+    if (gameState !== GameState.PLAYING || spelledLetters(userTyped).length === 0) return;
+    const parts = diffSpelling(userTyped, currentWord);
+    const errors = countSpellingErrors(parts);
+    if (errors === 0) {
+      handleWin();
+      return;
+    }
+    const stat: RoundStats = {
+      word: currentWord,
+      mistakes: errors,
+      timeSpent: Math.round((Date.now() - startTime) / 1000),
+      skipped: false,
+      correct: false,
+      inputMode,
+      typed: userTyped,
+      hintsUsed,
+      letterErrors: diffToLetterErrors(parts),
+      playedAt: Date.now(),
+    };
+    recordRound(stat);
+    loseLife();
+    setLastDiff(parts);
+    setShake(true);
+    setTimeout(() => setShake(false), 500);
+    setGameState(GameState.ATTEMPT_RESULT);
+  };
+
+  const announce = (text: string) => setAnnouncement(prev => ({ text, count: prev.count + 1 }));
+
+  // Screen readers hear what sighted players see: the word count, the result and the stars.
+  useEffect(() => {
+    if (gameState === GameState.PLAYING) {
+      const which = sessionType === 'bee' && bee ? `${bee.players[bee.current].name}'s turn`
+        : isChallenge ? 'Next word'
+        : `Word ${currentWordInStageIdx + 1} of ${stageWordCount}`;
+      const how = inputMode === 'tiles' ? 'Type a letter or pick a tile' : 'Type it and press Enter';
+      announce(`${which}. ${spelledLetters(currentWord).length} letters. ${how}.`);
+    } else if (gameState === GameState.CELEBRATING) {
+      announce(`Correct! ${[...currentWord].join(' ')}.`);
+    } else if (gameState === GameState.ATTEMPT_RESULT) {
+      announce(`Not quite. The word is spelled ${[...currentWord].join(' ')}.`);
+    } else if (gameState === GameState.GAME_OVER) {
+      const stars = starsForScore(sessionScore(sessionHistory), stageWordCount);
+      announce(`${sessionTitle} complete. ${stars} of 3 stars. You got ${sessionHistory.filter(h => h.correct).length} of ${stageWordCount} words.`);
+    }
+  }, [gameState, currentWordInStageIdx]);
+
+  // Letter keys pick a tile in tile mode and type in keyboard mode.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (gameState === GameState.PLAYING) {
+        const letter = toWordCase(e.key, currentLanguage);
+        const isLetter = isLetterOf(letter, currentLanguage);
+        if (inputMode === 'tiles') {
+          const tile = isLetter && tilePool.find(t => !t.isUsed && t.letter === letter);
+          if (!tile) return;
+          handleTileClick(tile);
+        } else if (isLetter) typeLetter(letter);
+        else if (e.key === 'Backspace') eraseLetter();
+        else if (e.key === 'Enter') submitSpelling();
+        else return;
+        e.preventDefault();
+      } else if ((gameState === GameState.CELEBRATING || gameState === GameState.ATTEMPT_RESULT) && e.key === 'Enter') {
+        e.preventDefault();
+        nextWord();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Keyboard spellers may have typed ahead wrongly; hints build on the part that is right so far.
+  const correctPrefixLength = () => {
+    let n = 0;
+    while (n < userTyped.length && userTyped[n] === currentWord[n]) n++;
+    return n;
+  };
+
+  const takeHint = (type: HintType) => {
+    if (gameState !== GameState.PLAYING) return;
+    // The whole word is already typed (perhaps with extra letters after it), so there's no next letter to give.
+    if (type === 'revealLetter' && inputMode === 'keyboard' && correctPrefixLength() >= currentWord.length) return;
+    const nextHints = [...hintsUsed, type];
+    setHintsUsed(nextHints);
+
+    if (type === 'slowAudio') {
+      speak({ text: currentEntry.word, audio: currentEntry.audio, slow: true, lang: getLanguage(currentLanguage).locale });
+    } else if (type === 'revealLetter' && inputMode === 'keyboard') {
+      const prefix = correctPrefixLength();
+      setUserTyped(fillPrefilled(currentWord.slice(0, prefix + 1), currentWord));
+      announce(`The next letter is ${currentWord[prefix]}.`);
+    } else if (type === 'revealLetter' || type === 'highlightTile') {
+      const tile = tilePool.find(t => !t.isUsed && t.letter === currentWord[userTyped.length]);
+      if (!tile) return;
+      if (type === 'highlightTile') {
+        setHighlightedTileId(tile.id);
+        announce(`Look for the ${tile.letter} tile.`);
+        return;
+      }
+      announce(`The next letter is ${tile.letter}.`);
+      const nextTyped = fillPrefilled(userTyped + tile.letter, currentWord);
+      setUserTyped(nextTyped);
+      setTilePool(prev => prev.map(t => t.id === tile.id ? { ...t, isUsed: true } : t));
+      setHighlightedTileId(null);
+      if (nextTyped === currentWord) handleWin(nextHints);
+    }
   };
 
   const handleTileClick = (tile: TileItem) => {
     if (gameState !== GameState.PLAYING || tile.isUsed) return;
     if (tile.letter === currentWord[userTyped.length]) {
-      const nextTyped = userTyped + tile.letter;
+      const nextTyped = fillPrefilled(userTyped + tile.letter, currentWord);
       setUserTyped(nextTyped);
       setTilePool(prev => prev.map(t => t.id === tile.id ? { ...t, isUsed: true } : t));
+      setHighlightedTileId(null);
       if (nextTyped === currentWord) handleWin();
+      else announce(`${tile.letter}. ${spelledLetters(nextTyped).length} of ${spelledLetters(currentWord).length} letters.`);
     } else {
+      announce(`${tile.letter} is not the next letter. Try again.`);
+      const error: LetterError = { position: userTyped.length, chosen: tile.letter, expected: currentWord[userTyped.length] };
+      setLetterErrors(prev => [...prev, error]);
       setMistakes(prev => prev + 1);
       setShake(true);
       setTimeout(() => setShake(false), 500);
+      const stat: RoundStats = { word: currentWord, mistakes: mistakes + 1, timeSpent: Math.round((Date.now() - startTime) / 1000), skipped: false, correct: false, inputMode, hintsUsed, letterErrors: [...letterErrors, error], playedAt: Date.now() };
+      if (sessionType === 'bee' && bee?.elimination) {
+        // Like a real bee, one wrong letter ends the turn.
+        recordRound(stat);
+        setLastDiff(diffSpelling(userTyped + tile.letter, currentWord));
+        setGameState(GameState.ATTEMPT_RESULT);
+      } else if (loseLife()) {
+        recordRound(stat);
+        endChallenge([...sessionHistory, stat]);
+      }
     }
   };
 
   return (
     <div className={`min-h-screen ${COLORS.bg} p-4 sm:p-8 selection:bg-purple-200 overflow-x-hidden`}>
       <audio ref={audioRef} />
+      <div aria-live="polite" className="sr-only">
+        <p key={announcement.count}>{announcement.text}</p>
+      </div>
+      {(!isOnline || updateReady) && (
+        <div className="fixed top-3 left-1/2 -translate-x-1/2 z-50 flex flex-col items-center gap-2">
+          {!isOnline && (
+            <div role="status" className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/90 text-purple-600 font-bold text-sm shadow-md border border-purple-200">
+              <WifiOff size={16} /> Offline: saved words still work
+            </div>
+          )}
+          {updateReady && (
+            <button onClick={applyUpdate} className="flex items-center gap-2 px-4 py-2 rounded-full bg-purple-500 text-white font-bold text-sm shadow-md hover:bg-purple-600 transition-colors">
+              <RefreshCw size={16} /> New words and fixes are ready. Tap to update
+            </button>
+          )}
+        </div>
+      )}
       <main className="max-w-5xl mx-auto min-h-[85vh] flex items-center justify-center">
         {gameState === GameState.START && (
           <div className="flex flex-col items-center justify-center min-h-[60vh] text-center space-y-8 animate-in fade-in zoom-in duration-500">
-            <KittyMascot className="w-48 h-48 drop-shadow-xl" />
+            <KittyMascot className="w-48 h-48 drop-shadow-xl" outfit={profile.rewards.outfit} />
             <h1 className={`text-6xl font-extrabold ${COLORS.primary} font-brand tracking-tight`}>Kitty Spells</h1>
+            {linkError && (
+              <p role="alert" className="flex items-center gap-2 px-4 py-2 rounded-full bg-red-50 text-red-500 font-bold text-sm"><AlertTriangle size={16} /> {linkError}</p>
+            )}
+            <ProfilePicker
+              profiles={saveData.profiles}
+              activeProfileId={profile.id}
+              onSwitch={switchProfile}
+              onCreate={addProfile}
+              onRename={renameProfile}
+              onDelete={deleteProfile}
+            />
             <button onClick={() => { getAudioContext(); setGameState(GameState.STAGE_SELECT); }} className={`${COLORS.button} text-white px-12 py-6 rounded-full text-3xl font-bold font-brand shadow-2xl hover:scale-105 active:scale-95 transition-transform flex items-center gap-4`}>
               <Play fill="currentColor" className="w-10 h-10" /> GO TO STAGES
             </button>
+            <button onClick={() => setGameState(GameState.SHOP)} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><Shirt /> Kitty's Closet <span className="flex items-center gap-1 text-amber-600"><Coins size={18} /> {profile.rewards.coins}</span></button>
+            <button onClick={() => setGameState(GameState.SETTINGS)} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><Settings /> Settings</button>
+            <button onClick={() => setGameState(GameState.PARENT_GATE)} className="flex items-center gap-2 text-purple-400 font-bold text-sm hover:text-pink-600 transition-colors"><BarChart3 size={18} /> Grown-ups</button>
           </div>
         )}
         {gameState === GameState.STAGE_SELECT && (
           <div className="flex flex-col items-center w-full max-w-5xl mx-auto space-y-10 py-8 animate-in fade-in slide-in-from-bottom-8">
-            <h2 className="text-5xl font-brand text-purple-700">Pick a Stage</h2>
-            <div className="grid grid-cols-2 md:grid-cols-5 gap-6 w-full px-4">
-              {stagesProgress.map((prog, i) => (
-                <div key={i} className="flex flex-col items-center space-y-3">
-                  <button onClick={() => selectStage(i)} disabled={!prog.isUnlocked} className={`w-full aspect-square rounded-3xl flex flex-col items-center justify-center relative transition-all transform shadow-lg ${prog.isUnlocked ? 'bg-white hover:scale-105 border-b-8 border-purple-200' : 'bg-gray-200 grayscale opacity-60'}`}>
-                    {!prog.isUnlocked ? <Lock className="w-12 h-12 text-gray-400" /> : <span className="text-4xl font-brand text-purple-600">{i + 1}</span>}
+            <div className="flex items-center gap-4">
+              <KittyMascot className="w-20 h-20" outfit={profile.rewards.outfit} />
+              <h2 className="text-5xl font-brand text-purple-700">Pick a Stage</h2>
+              <button onClick={() => setGameState(GameState.SHOP)} aria-label={`${profile.rewards.coins} coins, open Kitty's Closet`} className="flex items-center gap-1 px-4 py-2 rounded-full bg-yellow-100 text-amber-600 font-brand text-xl hover:bg-yellow-200 transition-colors">
+                <Coins size={20} /> {profile.rewards.coins}
+              </button>
+            </div>
+            <button onClick={() => setGameState(GameState.WORD_LISTS)} className="flex items-center gap-2 px-5 py-2 rounded-full bg-white/70 text-purple-600 font-bold border border-purple-200 hover:bg-white transition-colors">
+              <BookOpen size={18} /> {activeList.name}
+            </button>
+            {activeList.assignment ? (
+              <p className="flex items-center gap-2 px-5 py-2 rounded-full bg-white/70 text-purple-500 font-bold text-sm">
+                <ClipboardList size={18} /> Assignment: {inputMode === 'tiles' ? 'Letter Tiles' : 'Real Bee'}, settings chosen by your teacher
+              </p>
+            ) : (
+              <div className="flex rounded-full bg-white/70 border border-purple-200 p-1">
+                {([['tiles', 'Letter Tiles', Grid3x3], ['keyboard', 'Real Bee', Keyboard]] as const).map(([mode, label, Icon]) => (
+                  <button key={mode} onClick={() => setInputMode(mode)} className={`flex items-center gap-2 px-4 py-2 rounded-full font-bold transition-colors ${inputMode === mode ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>
+                    <Icon size={18} /> {label}
                   </button>
-                  <div className="flex gap-1 h-6">
-                    {prog.isUnlocked && Array.from({ length: 3 }).map((_, s) => <Star key={s} size={20} className={s < prog.stars ? "fill-yellow-400 text-yellow-500" : "text-gray-300 fill-gray-100"} />)}
-                  </div>
-                </div>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap justify-center rounded-full bg-white/70 border border-purple-200 p-1">
+              {(['classic', 'daily', 'timed', 'lives', 'bee'] as const).map(mode => (
+                <button key={mode} onClick={() => setPlayMode(mode)} className={`px-5 py-2 rounded-full font-brand text-lg transition-colors ${playMode === mode ? 'bg-pink-400 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>
+                  {mode === 'classic' ? 'Stages' : mode === 'daily' ? 'Daily' : mode === 'bee' ? 'Class Bee' : CHALLENGE_LABELS[mode]}
+                </button>
               ))}
             </div>
+            {playMode === 'daily' ? (
+              <div className="flex flex-col items-center gap-6 w-full max-w-md p-8 bg-white/60 rounded-3xl shadow-inner">
+                <p className="text-lg font-bold text-purple-600 text-center">
+                  {DAILY_WORD_COUNT} words, the same for everyone today. Play every day to grow your streak!
+                </p>
+                <p className="flex items-center gap-2 font-brand text-2xl text-amber-500">
+                  <Flame /> {currentStreak(profile.daily.results, toDateKey(Date.now()))} day streak
+                </p>
+                {findDailyResult(profile.daily, toDateKey(Date.now())) ? (
+                  <button onClick={showDailyResult} className="bg-white text-purple-600 border-4 border-purple-100 px-10 py-4 rounded-full text-xl font-brand">TODAY'S RESULT</button>
+                ) : (
+                  <button onClick={startDaily} className={`${COLORS.button} text-white px-12 py-5 rounded-full text-2xl font-brand shadow-2xl hover:scale-105 transition-transform flex items-center gap-3`}>
+                    <CalendarDays size={28} /> START
+                  </button>
+                )}
+              </div>
+            ) : playMode === 'bee' ? (
+              <BeeSetup onStart={startBee} />
+            ) : playMode !== 'classic' ? (
+              <div className="flex flex-col items-center gap-6 w-full max-w-md p-8 bg-white/60 rounded-3xl shadow-inner">
+                <p className="text-lg font-bold text-purple-600 text-center">
+                  {playMode === 'timed'
+                    ? `Spell as many words as you can in ${TIMED_START_SECONDS} seconds. Perfect words add ${TIMED_BONUS_SECONDS} seconds!`
+                    : `Every mistake costs a life. You have ${STARTING_LIVES}. How far can you go?`}
+                </p>
+                <button onClick={() => startChallenge(playMode)} className={`${COLORS.button} text-white px-12 py-5 rounded-full text-2xl font-brand shadow-2xl hover:scale-105 transition-transform flex items-center gap-3`}>
+                  {playMode === 'timed' ? <Timer size={28} /> : <Heart size={28} />} START
+                </button>
+                <PersonalBestTable bests={profile.challengeBests[playMode]} />
+              </div>
+            ) : (
+              <>
+                <button onClick={startReview} disabled={dueReviewWords.length === 0} className="flex items-center gap-3 px-8 py-4 rounded-3xl bg-white shadow-lg border-b-8 border-pink-200 font-brand text-2xl text-pink-500 hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100">
+                  <RotateCcw /> Review
+                  <span className="text-base font-bold text-purple-500">{dueReviewWords.length > 0 ? `${dueReviewWords.length} words due` : 'All caught up!'}</span>
+                </button>
+                <button onClick={() => setGameState(GameState.PRACTICE_REPORT)} className="flex items-center gap-2 -mt-6 text-purple-500 font-bold hover:text-pink-600 transition-colors">
+                  <Target size={18} /> What to practice
+                </button>
+                <KeyboardGrid label="Stages" className="grid grid-cols-2 md:grid-cols-5 gap-6 w-full px-4">
+                  {stagesProgress.map((prog, i) => (
+                    <div key={i} className="flex flex-col items-center space-y-3">
+                      <button onClick={() => selectStage(i)} disabled={!prog.isUnlocked} aria-label={prog.isUnlocked ? `Stage ${i + 1}, ${prog.stars} of 3 stars` : `Stage ${i + 1}, locked`} className={`w-full aspect-square rounded-3xl flex flex-col items-center justify-center relative transition-all transform shadow-lg ${prog.isUnlocked ? 'bg-white hover:scale-105 border-b-8 border-purple-200' : 'bg-gray-200 grayscale opacity-60'}`}>
+                        {!prog.isUnlocked ? <Lock className="w-12 h-12 text-gray-400" /> : <span className="text-4xl font-brand text-purple-600">{i + 1}</span>}
+                      </button>
+                      <div className="flex gap-1 h-6" aria-hidden="true">
+                        {prog.isUnlocked && Array.from({ length: 3 }).map((_, s) => <Star key={s} size={20} className={s < prog.stars ? "fill-yellow-400 text-yellow-500" : "text-gray-300 fill-gray-100"} />)}
+                      </div>
+                    </div>
+                  ))}
+                </KeyboardGrid>
+              </>
+            )}
             <button onClick={() => setGameState(GameState.START)} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><Home /> Main Menu</button>
           </div>
         )}
@@ -238,71 +818,215 @@ const App: React.FC = () => {
           <div className={`flex flex-col items-center space-y-12 w-full max-w-4xl mx-auto ${shake ? 'animate-shake' : ''}`}>
             <div className="flex justify-between w-full px-6 py-4 bg-white/50 backdrop-blur-sm rounded-2xl border border-pink-200 items-center">
               <div className="flex flex-col">
-                <span className="text-xs font-bold text-pink-400 uppercase tracking-tighter">Stage {currentStageIdx + 1}</span>
-                <span className="font-brand text-2xl text-purple-700">Word {currentWordInStageIdx + 1} / 10</span>
+                <span className="text-xs font-bold text-pink-400 uppercase tracking-tighter">{sessionTitle}</span>
+                <span className="font-brand text-2xl text-purple-700">
+                  {isChallenge ? `Words: ${sessionHistory.filter(h => h.correct).length}`
+                    : sessionType === 'bee' && bee ? `${bee.players[bee.current].name}'s turn`
+                    : `Word ${currentWordInStageIdx + 1} / ${stageWordCount}`}
+                </span>
               </div>
+              {sessionType === 'bee' && bee && (
+                <span className="font-brand text-xl text-purple-500">Round {bee.round} / {bee.rounds}</span>
+              )}
+              {sessionType === 'timed' && (
+                <span className={`flex items-center gap-2 font-brand text-3xl ${timeLeft <= 10 ? 'text-red-500 animate-pulse' : 'text-purple-700'}`}>
+                  <Timer /> {timeLeft}s
+                </span>
+              )}
+              {sessionType === 'lives' && (
+                <span className="flex gap-1" aria-label={`${lives} lives left`}>
+                  {Array.from({ length: STARTING_LIVES }).map((_, i) => (
+                    <Heart key={i} size={28} className={i < lives ? 'fill-pink-500 text-pink-500' : 'text-gray-300'} />
+                  ))}
+                </span>
+              )}
               <button onClick={skipWord} className="px-4 py-2 rounded-xl bg-purple-100 text-purple-600 font-bold border border-purple-200 text-sm flex items-center gap-2 hover:bg-purple-200 transition-colors">
                 Skip <FastForward size={16} />
               </button>
             </div>
             <div className="flex flex-col items-center gap-6">
               <div className="relative">
-                <KittyMascot className="w-32 h-32" />
-                <button onClick={() => playWordAudio(globalWordIdx)} className="absolute -bottom-2 -right-2 p-4 bg-white rounded-full shadow-xl text-purple-600 hover:text-pink-500 hover:scale-110 transition-all border-2 border-purple-100 disabled:opacity-50">
+                <KittyMascot className="w-32 h-32" outfit={profile.rewards.outfit} />
+                <button onClick={() => playWordAudio(currentEntry)} className="absolute -bottom-2 -right-2 p-4 bg-white rounded-full shadow-xl text-purple-600 hover:text-pink-500 hover:scale-110 transition-all border-2 border-purple-100 disabled:opacity-50">
                   {isGeneratingAudio ? <Loader2 className="animate-spin" /> : <Volume2 />}
                 </button>
               </div>
-              <div className="flex gap-2 flex-wrap justify-center min-h-[80px]">
-                {currentWord.split('').map((char, i) => (
-                  <div key={i} className={`w-12 h-16 border-b-4 flex items-center justify-center text-4xl font-brand transition-all ${userTyped[i] ? 'border-pink-500 text-purple-700 bg-pink-50' : 'border-gray-300 text-transparent bg-white/30'}`}>
-                    {userTyped[i] || ''}
-                  </div>
-                ))}
-              </div>
-            </div>
-            <div className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-6 gap-3 p-6 bg-white/40 rounded-3xl shadow-inner">
-              {tilePool.map((tile) => (
-                <button key={tile.id} onClick={() => handleTileClick(tile)} disabled={tile.isUsed} className={`w-14 h-14 sm:w-16 sm:h-16 flex items-center justify-center text-3xl font-brand rounded-2xl shadow-lg transition-all ${tile.isUsed ? 'bg-gray-200 text-gray-400 scale-90 opacity-40 shadow-none' : 'bg-white text-purple-600 hover:-translate-y-1 hover:shadow-xl active:scale-95 border-b-4 border-purple-100'}`}>
-                  {tile.letter}
-                </button>
-              ))}
+              {currentEntry && <WordInfoPanel key={`${sessionType}-${currentWordInStageIdx}`} entry={currentEntry} locale={getLanguage(currentLanguage).locale} onSpeak={text => speak({ text, lang: getLanguage(currentLanguage).locale })} />}
+              {speechError && (
+                <p role="alert" className="flex items-center gap-2 px-4 py-2 rounded-xl bg-red-50 text-red-500 font-bold text-sm border border-red-200">
+                  <VolumeX size={16} /> {speechError}
+                </p>
+              )}
+              {inputMode === 'tiles' ? (
+                <div className="flex gap-2 flex-wrap justify-center min-h-[80px]">
+                  {currentWord.split('').map((char, i) => (
+                    <React.Fragment key={i}>
+                      {syllableBreaks.has(i) && <span className="self-center text-3xl font-brand text-pink-400">{SYLLABLE_SEPARATOR}</span>}
+                      {isPrefilled(char) ? (
+                        <div className="w-4 h-16 flex items-center justify-center text-4xl font-brand text-purple-400">{char}</div>
+                      ) : <div className={`w-12 h-16 border-b-4 flex items-center justify-center text-4xl font-brand transition-all ${userTyped[i] ? 'border-pink-500 text-purple-700 bg-pink-50' : 'border-gray-300 text-transparent bg-white/30'}`}>
+                        {userTyped[i] || ''}
+                      </div>}
+                    </React.Fragment>
+                  ))}
+                </div>
+              ) : (
+                <div className="flex gap-2 flex-wrap justify-center items-end min-h-[80px] min-w-[16rem] px-4 border-b-4 border-pink-300">
+                  {userTyped.split('').map((char, i) => (
+                    <div key={i} className="w-12 h-16 flex items-center justify-center text-4xl font-brand text-purple-700">{char}</div>
+                  ))}
+                  <div className="w-1 h-12 mb-2 bg-pink-400 rounded-full animate-pulse" />
+                </div>
+              )}
+              {inputMode === 'keyboard' && hintsUsed.includes('syllables') && (
+                <p className="text-2xl font-brand tracking-widest text-pink-400">
+                  {splitSyllables(currentWord).map(s => [...s].map(ch => (isPrefilled(ch) ? ch : '_')).join('')).join(` ${SYLLABLE_SEPARATOR} `)}
+                </p>
+              )}
+              {hintsAvailable && <HintBar inputMode={inputMode} hintsUsed={hintsUsed} onHint={takeHint} />}
             </div>
+            {inputMode === 'tiles' ? (
+              <KeyboardGrid label="Letter tiles" className="grid grid-cols-4 sm:grid-cols-5 md:grid-cols-6 gap-3 p-6 bg-white/40 rounded-3xl shadow-inner">
+                {tilePool.map((tile) => (
+                  <button key={tile.id} onClick={() => handleTileClick(tile)} disabled={tile.isUsed} className={`w-14 h-14 sm:w-16 sm:h-16 flex items-center justify-center text-3xl font-brand rounded-2xl shadow-lg transition-all ${tile.isUsed ? 'bg-gray-200 text-gray-400 scale-90 opacity-40 shadow-none' : 'bg-white text-purple-600 hover:-translate-y-1 hover:shadow-xl active:scale-95 border-b-4 border-purple-100'} ${tile.id === highlightedTileId ? 'ring-4 ring-yellow-300 animate-bounce' : ''}`}>
+                    {tile.letter}
+                  </button>
+                ))}
+              </KeyboardGrid>
+            ) : (
+              <OnScreenKeyboard rows={getLanguage(currentLanguage).keyboardRows} onLetter={typeLetter} onBackspace={eraseLetter} onSubmit={submitSpelling} canSubmit={spelledLetters(userTyped).length > 0} />
+            )}
             <button onClick={() => setGameState(GameState.STAGE_SELECT)} className="font-bold text-purple-400 hover:text-pink-600">Quit to Stages</button>
           </div>
         )}
         {gameState === GameState.CELEBRATING && (
           <div className="text-center space-y-6 animate-in zoom-in">
-            <KittyMascot className="w-48 h-48 mx-auto" />
+            <KittyMascot className="w-48 h-48 mx-auto" outfit={profile.rewards.outfit} />
             <div className="space-y-2">
               <h2 className="text-5xl font-brand text-pink-500">PAW-SOME!</h2>
               <p className="text-6xl font-brand text-purple-700 tracking-widest">{currentWord}</p>
             </div>
             <button onClick={nextWord} className={`${COLORS.button} text-white px-12 py-5 rounded-full text-2xl font-brand shadow-2xl hover:scale-105 transition-transform flex items-center gap-3 mx-auto`}>
-              NEXT WORD <ChevronRight size={28} />
+              {sessionType === 'bee' ? 'NEXT PLAYER' : 'NEXT WORD'} <ChevronRight size={28} />
+            </button>
+          </div>
+        )}
+        {gameState === GameState.ATTEMPT_RESULT && (
+          <div className={`text-center space-y-8 animate-in zoom-in ${shake ? 'animate-shake' : ''}`}>
+            <KittyMascot className="w-40 h-40 mx-auto" outfit={profile.rewards.outfit} />
+            <h2 className="text-5xl font-brand text-pink-500">So close!</h2>
+            {sessionType === 'bee' && bee?.elimination && (
+              <p className="text-2xl font-brand text-purple-500 -mt-4">{bee.players[bee.current].name} is out of the bee</p>
+            )}
+            <SpellingDiffView parts={lastDiff} />
+            <div className="space-y-1">
+              <p className="text-lg font-bold text-pink-400 uppercase tracking-tight">The word is</p>
+              <p className="text-5xl font-brand text-purple-700 tracking-widest">{currentWord}</p>
+            </div>
+            <button onClick={nextWord} className={`${COLORS.button} text-white px-12 py-5 rounded-full text-2xl font-brand shadow-2xl hover:scale-105 transition-transform flex items-center gap-3 mx-auto`}>
+              {sessionType === 'bee' ? 'NEXT PLAYER' : 'NEXT WORD'} <ChevronRight size={28} />
             </button>
           </div>
         )}
         {gameState === GameState.GAME_OVER && (
           <div className="text-center space-y-8 animate-in fade-in">
-            <h2 className="text-5xl font-brand text-purple-700">Stage {currentStageIdx + 1} Complete!</h2>
+            <h2 className="text-5xl font-brand text-purple-700">{sessionTitle} Complete!</h2>
             <div className="flex justify-center gap-4 py-4">
               {Array.from({ length: 3 }).map((_, s) => {
-                const correctCount = sessionHistory.filter(h => !h.skipped).length;
-                let earned = false;
-                if (s === 0 && correctCount >= 3) earned = true;
-                if (s === 1 && correctCount >= 7) earned = true;
-                if (s === 2 && correctCount === 10) earned = true;
+                const earned = s < starsForScore(sessionScore(sessionHistory), stageWordCount);
                 return <Star key={s} size={80} className={`drop-shadow-lg ${earned ? "fill-yellow-400 text-yellow-500" : "text-gray-200 fill-gray-50"}`} />;
               })}
             </div>
-            <p className="text-2xl font-brand text-pink-500">You got {sessionHistory.filter(h => !h.skipped).length} / 10 words!</p>
+            <p className="text-2xl font-brand text-pink-500">You got {sessionHistory.filter(h => h.correct).length} / {stageWordCount} words!</p>
+            {sessionHistory.some(h => h.correct && h.hintsUsed?.length) && (
+              <p className="text-lg font-bold text-amber-500 -mt-6">{sessionHistory.filter(h => h.correct && h.hintsUsed?.length).length} with hints</p>
+            )}
+            {resultCode && <ResultCodeCard code={resultCode} />}
             <div className="flex flex-col gap-4 w-64 mx-auto">
               <button onClick={() => setGameState(GameState.STAGE_SELECT)} className={`${COLORS.button} text-white px-10 py-5 rounded-full text-xl font-brand shadow-xl`}>BACK TO STAGES</button>
-              <button onClick={() => selectStage(currentStageIdx)} className="bg-white text-purple-600 border-4 border-purple-100 px-10 py-4 rounded-full text-xl font-brand">REPLAY STAGE</button>
+              {(sessionType !== 'review' || dueReviewWords.length > 0) && (
+                <button onClick={replaySession} className="bg-white text-purple-600 border-4 border-purple-100 px-10 py-4 rounded-full text-xl font-brand">{sessionType === 'review' ? 'REVIEW AGAIN' : sessionType === 'practice' ? 'PRACTICE AGAIN' : 'REPLAY STAGE'}</button>
+              )}
             </div>
           </div>
         )}
+        {gameState === GameState.CHALLENGE_OVER && isChallenge && challengeOutcome && (
+          <ChallengeResults
+            mode={sessionType as ChallengeMode}
+            score={challengeOutcome.score}
+            rank={challengeOutcome.rank}
+            bests={profile.challengeBests[sessionType as ChallengeMode]}
+            outfit={profile.rewards.outfit}
+            onPlayAgain={replaySession}
+            onBack={() => setGameState(GameState.STAGE_SELECT)}
+          />
+        )}
+        {gameState === GameState.SHOP && (
+          <RewardsShop
+            rewards={profile.rewards}
+            onBuy={buyOutfitItem}
+            onEquip={item => updateRewards(r => equipItem(r, item))}
+            onUnequip={(slot: OutfitSlot) => updateRewards(r => unequipSlot(r, slot))}
+            onBack={() => setGameState(GameState.START)}
+          />
+        )}
+        {gameState === GameState.SETTINGS && (
+          <SettingsPanel settings={profile.settings} onChange={updateSettings} onBack={() => setGameState(GameState.START)} />
+        )}
+        {gameState === GameState.DAILY_OVER && findDailyResult(profile.daily, dailyDate) && (
+          <DailyResults
+            result={findDailyResult(profile.daily, dailyDate)!}
+            streak={currentStreak(profile.daily.results, dailyDate)}
+            bestStreak={profile.daily.bestStreak}
+            outfit={profile.rewards.outfit}
+            onBack={() => setGameState(GameState.STAGE_SELECT)}
+          />
+        )}
+        {gameState === GameState.BEE_HANDOFF && bee && (
+          <div className="text-center space-y-8 animate-in fade-in flex flex-col items-center">
+            <p className="text-lg font-bold text-pink-400 uppercase tracking-tight">Round {bee.round} of {bee.rounds}</p>
+            <h2 className="text-5xl font-brand text-purple-700">Pass to {bee.players[bee.current].name}!</h2>
+            <button onClick={() => initRound(stageWords, currentWordInStageIdx)} className={`${COLORS.button} text-white px-12 py-5 rounded-full text-2xl font-brand shadow-2xl hover:scale-105 transition-transform flex items-center gap-3`}>
+              <Play fill="currentColor" size={28} /> I'M READY
+            </button>
+            <BeeScoreboard standings={beeStandings(bee)} highlightName={bee.players[bee.current].name} />
+            <button onClick={() => setGameState(GameState.BEE_OVER)} className="text-purple-500 font-bold hover:text-pink-600 transition-colors">End the bee now</button>
+          </div>
+        )}
+        {gameState === GameState.BEE_OVER && bee && (
+          <BeeStandings
+            standings={beeStandings(bee)}
+            outfit={profile.rewards.outfit}
+            onPlayAgain={() => startBee(bee.players.map(p => p.name), bee.rounds, bee.elimination)}
+            onBack={() => setGameState(GameState.STAGE_SELECT)}
+          />
+        )}
+        {gameState === GameState.PRACTICE_REPORT && (
+          <div className="flex flex-col items-center w-full space-y-8 py-8 animate-in fade-in slide-in-from-bottom-8">
+            <h2 className="text-5xl font-brand text-purple-700">What to Practice</h2>
+            <PracticeReport report={analyzeErrors(profile.history)} onPractice={startPractice} onBack={() => setGameState(GameState.STAGE_SELECT)} />
+          </div>
+        )}
+        {gameState === GameState.PARENT_GATE && (
+          <ParentGate onUnlock={() => setGameState(GameState.DASHBOARD)} onBack={() => setGameState(GameState.START)} />
+        )}
+        {gameState === GameState.DASHBOARD && (
+          <ParentDashboard profiles={saveData.profiles} activeProfileId={profile.id} onImport={importPlayer} onBack={() => setGameState(GameState.START)} />
+        )}
+        {gameState === GameState.WORD_LISTS && (
+          <WordListManager
+            lists={wordLists}
+            activeListId={activeList.id}
+            onSelect={selectWordList}
+            onSave={saveWordList}
+            onDelete={deleteWordList}
+            onBack={() => setGameState(GameState.STAGE_SELECT)}
+          />
+        )}
       </main>
+      {gameState !== GameState.PLAYING && gameState !== GameState.BEE_HANDOFF && (
+        <AchievementToast achievementIds={profile.rewards.newlyEarned} onDismiss={() => updateRewards(r => ({ ...r, newlyEarned: [] }))} />
+      )}
       <style>{`
         .font-brand { font-family: 'Fredoka One', cursive; }
       `}</style>
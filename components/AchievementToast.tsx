@@ -0,0 +1,30 @@
+import React from 'react';
+import { findAchievement } from '../utils/achievements';
+import { Trophy, Coins } from 'lucide-react';
+
+interface AchievementToastProps {
+  achievementIds: string[];
+  onDismiss: () => void;
+}
+
+const AchievementToast: React.FC<AchievementToastProps> = ({ achievementIds, onDismiss }) => {
+  const achievements = achievementIds.map(findAchievement).filter(a => a !== undefined);
+  if (achievements.length === 0) return null;
+  return (
+    <div role="status" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[min(92vw,24rem)] p-4 rounded-3xl bg-white shadow-2xl border-4 border-yellow-300 space-y-3 animate-in slide-in-from-bottom-8">
+      {achievements.map(a => (
+        <div key={a.id} className="flex items-center gap-3">
+          <Trophy className="text-amber-500 shrink-0" />
+          <span className="flex-1">
+            <span className="block font-brand text-xl text-purple-700">{a.title}</span>
+            <span className="text-sm font-bold text-purple-400">{a.description}</span>
+          </span>
+          <span className="flex items-center gap-1 font-bold text-amber-600"><Coins size={16} /> +{a.coins}</span>
+        </div>
+      ))}
+      <button onClick={onDismiss} className="w-full py-2 rounded-full bg-purple-500 text-white font-brand text-lg">YAY!</button>
+    </div>
+  );
+};
+
+export default AchievementToast;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { AssignmentSettings, TileDifficulty, WordList } from '../types';
+import { COLORS, TILE_DIFFICULTY_CONFIG, STAGE_SIZE_OPTIONS } from '../constants';
+import { createAssignmentLink, DEFAULT_ASSIGNMENT_SETTINGS } from '../utils/assignments';
+import { Link2, Copy, Check, Loader2, XCircle } from 'lucide-react';
+
+interface AssignmentBuilderProps {
+  list: WordList;
+  onClose: () => void;
+}
+
+const Choice = <T extends string | number>({ value, options, label, onChange }: { value: T; options: T[]; label: (option: T) => string; onChange: (option: T) => void }) => (
+  <div className="flex flex-wrap rounded-full bg-white border border-purple-200 p-1 w-fit">
+    {options.map(option => (
+      <button key={option} onClick={() => onChange(option)} className={`px-4 py-1 rounded-full font-bold transition-colors ${value === option ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>
+        {label(option)}
+      </button>
+    ))}
+  </div>
+);
+
+/** Lets a teacher pick the settings for a list and copy a link that opens it as an assignment. */
+const AssignmentBuilder: React.FC<AssignmentBuilderProps> = ({ list, onClose }) => {
+  const [settings, setSettings] = useState<AssignmentSettings>(list.assignment ?? DEFAULT_ASSIGNMENT_SETTINGS);
+  const [link, setLink] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const change = (changes: Partial<AssignmentSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+    setLink(null);
+    setCopied(false);
+    setError(null);
+  };
+
+  const create = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setLink(await createAssignmentLink(list, settings, window.location.origin + window.location.pathname));
+    } catch (err) {
+      console.error('Could not create assignment link:', err);
+      setError('The link could not be made. Try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copy = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setError(null);
+    } catch (err) {
+      console.error('Could not copy assignment link:', err);
+      setError('Copying is blocked here. Select the link and copy it by hand.');
+    }
+  };
+
+  return (
+    <div className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-4">
+      <h3 className="font-brand text-2xl text-purple-700">Share “{list.name}” as an assignment</h3>
+      <div className="space-y-1">
+        <span className="text-sm font-bold text-pink-400">Mode</span>
+        <Choice value={settings.inputMode} options={['tiles', 'keyboard']} label={m => (m === 'tiles' ? 'Letter Tiles' : 'Real Bee')} onChange={inputMode => change({ inputMode })} />
+      </div>
+      <div className="space-y-1">
+        <span className="text-sm font-bold text-pink-400">Words per stage</span>
+        <Choice value={settings.wordsPerStage} options={STAGE_SIZE_OPTIONS} label={String} onChange={wordsPerStage => change({ wordsPerStage })} />
+      </div>
+      <div className="space-y-1">
+        <span className="text-sm font-bold text-pink-400">Letter tiles</span>
+        <Choice value={settings.tileDifficulty} options={Object.keys(TILE_DIFFICULTY_CONFIG) as TileDifficulty[]} label={d => TILE_DIFFICULTY_CONFIG[d].label} onChange={tileDifficulty => change({ tileDifficulty })} />
+      </div>
+      <label className="flex items-center gap-3 cursor-pointer font-bold text-purple-600">
+        <input type="checkbox" checked={settings.hintsEnabled} onChange={e => change({ hintsEnabled: e.target.checked })} className="w-5 h-5 accent-purple-500" />
+        Allow hints
+      </label>
+      {link ? (
+        <div className="flex gap-2">
+          <input readOnly value={link} onFocus={e => e.target.select()} className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-purple-100 text-sm text-purple-700 select-text" aria-label="Assignment link" />
+          <button onClick={copy} className={`${COLORS.button} text-white px-5 py-2 rounded-full font-bold flex items-center gap-2`}>
+            {copied ? <><Check size={18} /> Copied</> : <><Copy size={18} /> Copy</>}
+          </button>
+        </div>
+      ) : (
+        <button onClick={create} disabled={isCreating} className={`${COLORS.button} text-white px-6 py-3 rounded-full font-brand text-lg shadow-lg flex items-center gap-2 disabled:opacity-50`}>
+          {isCreating ? <Loader2 className="animate-spin" /> : <Link2 />} CREATE LINK
+        </button>
+      )}
+      {error && <p role="alert" className="flex items-center gap-2 font-bold text-red-500"><XCircle size={18} /> {error}</p>}
+      <button onClick={onClose} className="text-purple-500 font-bold hover:text-pink-600 transition-colors">Done</button>
+    </div>
+  );
+};
+
+export default AssignmentBuilder;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { BeeStanding } from '../utils/bee';
+import { Trophy } from 'lucide-react';
+
+interface BeeScoreboardProps {
+  standings: BeeStanding[];
+  highlightName?: string;
+}
+
+const BeeScoreboard: React.FC<BeeScoreboardProps> = ({ standings, highlightName }) => (
+  <ol className="w-full max-w-md space-y-2">
+    {standings.map(s => (
+      <li key={s.name} className={`flex items-center gap-3 px-4 py-2 rounded-2xl shadow-sm ${s.name === highlightName ? 'bg-yellow-100 border-2 border-yellow-300' : 'bg-white/80'} ${s.outInRound !== undefined ? 'opacity-60' : ''}`}>
+        <span className="w-6 font-brand text-xl text-purple-400">{s.place}</span>
+        {s.place === 1 && <Trophy size={18} className="text-yellow-500" />}
+        <span className="flex-1 text-left font-bold text-purple-700">
+          {s.name}
+          {s.outInRound !== undefined && <span className="ml-2 text-xs text-pink-400">out in round {s.outInRound}</span>}
+        </span>
+        <span className="text-xs font-bold text-purple-400">{s.correct} right · {s.mistakes} slips · {s.totalTime}s</span>
+        <span className="font-brand text-2xl text-pink-500">{s.points}</span>
+      </li>
+    ))}
+  </ol>
+);
+
+export default BeeScoreboard;
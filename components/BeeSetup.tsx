@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { COLORS, BEE_MAX_PLAYERS, BEE_MIN_PLAYERS, BEE_ROUND_OPTIONS } from '../constants';
+import { validateBeeNames } from '../utils/bee';
+import { UserPlus, X, Users } from 'lucide-react';
+
+interface BeeSetupProps {
+  onStart: (names: string[], rounds: number, elimination: boolean) => void;
+}
+
+const BeeSetup: React.FC<BeeSetupProps> = ({ onStart }) => {
+  const [names, setNames] = useState<string[]>(Array(BEE_MIN_PLAYERS).fill(''));
+  const [rounds, setRounds] = useState(BEE_ROUND_OPTIONS[0]);
+  const [elimination, setElimination] = useState(false);
+  const error = validateBeeNames(names);
+
+  const setName = (idx: number, name: string) => setNames(prev => prev.map((n, i) => (i === idx ? name : n)));
+
+  return (
+    <div className="flex flex-col items-center gap-5 w-full max-w-md p-8 bg-white/60 rounded-3xl shadow-inner">
+      <p className="text-lg font-bold text-purple-600 text-center">Take turns on this device. Each player spells one word per round.</p>
+      <ol className="w-full space-y-2">
+        {names.map((name, i) => (
+          <li key={i} className="flex items-center gap-2">
+            <span className="w-6 font-brand text-xl text-purple-400">{i + 1}</span>
+            <input
+              value={name}
+              onChange={e => setName(i, e.target.value)}
+              placeholder={`Player ${i + 1}`}
+              maxLength={20}
+              className="flex-1 px-4 py-2 rounded-xl border-2 border-purple-100 font-bold text-purple-700 select-text"
+            />
+            {names.length > BEE_MIN_PLAYERS && (
+              <button onClick={() => setNames(prev => prev.filter((_, j) => j !== i))} aria-label={`Remove player ${i + 1}`} className="p-1 text-gray-400 hover:text-red-500"><X size={20} /></button>
+            )}
+          </li>
+        ))}
+      </ol>
+      {names.length < BEE_MAX_PLAYERS && (
+        <button onClick={() => setNames(prev => [...prev, ''])} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600"><UserPlus size={18} /> Add player</button>
+      )}
+      <div className="flex items-center gap-3">
+        <span className="font-bold text-purple-600">Rounds</span>
+        <div className="flex rounded-full bg-white border border-purple-200 p-1">
+          {BEE_ROUND_OPTIONS.map(n => (
+            <button key={n} onClick={() => setRounds(n)} className={`px-4 py-1 rounded-full font-bold transition-colors ${rounds === n ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>{n}</button>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center gap-3 cursor-pointer font-bold text-purple-600">
+        <input type="checkbox" checked={elimination} onChange={e => setElimination(e.target.checked)} className="w-5 h-5 accent-purple-500" />
+        A miss knocks you out
+      </label>
+      {error && names.some(n => n.trim()) && <p className="text-sm font-bold text-red-500">{error}</p>}
+      <button onClick={() => onStart(names, rounds, elimination)} disabled={!!error} className={`${COLORS.button} text-white px-12 py-5 rounded-full text-2xl font-brand shadow-2xl hover:scale-105 transition-transform flex items-center gap-3 disabled:opacity-50 disabled:hover:scale-100`}>
+        <Users size={28} /> START
+      </button>
+    </div>
+  );
+};
+
+export default BeeSetup;
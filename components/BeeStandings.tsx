@@ -0,0 +1,34 @@
+import React from 'react';
+import { Outfit } from '../types';
+import { BeeStanding } from '../utils/bee';
+import { COLORS } from '../constants';
+import KittyMascot from './KittyMascot';
+import BeeScoreboard from './BeeScoreboard';
+import { Crown } from 'lucide-react';
+
+interface BeeStandingsProps {
+  standings: BeeStanding[];
+  outfit: Outfit;
+  onPlayAgain: () => void;
+  onBack: () => void;
+}
+
+const BeeStandings: React.FC<BeeStandingsProps> = ({ standings, outfit, onPlayAgain, onBack }) => {
+  const winners = standings.filter(s => s.place === 1).map(s => s.name);
+  return (
+    <div className="text-center space-y-8 animate-in fade-in flex flex-col items-center">
+      <KittyMascot className="w-36 h-36" outfit={outfit} />
+      <h2 className="text-5xl font-brand text-purple-700">Final Standings</h2>
+      <p className="flex items-center gap-3 text-3xl font-brand text-pink-500">
+        <Crown className="text-yellow-500" /> {winners.join(' & ')} {winners.length > 1 ? 'win!' : 'wins!'}
+      </p>
+      <BeeScoreboard standings={standings} />
+      <div className="flex flex-col gap-4 w-64">
+        <button onClick={onPlayAgain} className={`${COLORS.button} text-white px-10 py-5 rounded-full text-xl font-brand shadow-xl`}>PLAY AGAIN</button>
+        <button onClick={onBack} className="bg-white text-purple-600 border-4 border-purple-100 px-10 py-4 rounded-full text-xl font-brand">BACK TO STAGES</button>
+      </div>
+    </div>
+  );
+};
+
+export default BeeStandings;
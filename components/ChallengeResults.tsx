@@ -0,0 +1,41 @@
+import React from 'react';
+import { ChallengeMode, ChallengeResult, Outfit } from '../types';
+import { COLORS, CHALLENGE_LABELS } from '../constants';
+import KittyMascot from './KittyMascot';
+import PersonalBestTable from './PersonalBestTable';
+import { Timer, HeartCrack, Sparkles } from 'lucide-react';
+
+interface ChallengeResultsProps {
+  mode: ChallengeMode;
+  score: number;
+  rank: number; // -1 when the run didn't make the table
+  bests: ChallengeResult[];
+  outfit: Outfit;
+  onPlayAgain: () => void;
+  onBack: () => void;
+}
+
+const ChallengeResults: React.FC<ChallengeResultsProps> = ({ mode, score, rank, bests, outfit, onPlayAgain, onBack }) => (
+  <div className="text-center space-y-8 animate-in fade-in flex flex-col items-center">
+    <KittyMascot className="w-36 h-36" outfit={outfit} />
+    <div className="flex items-center gap-3 text-pink-500">
+      {mode === 'timed' ? <Timer size={36} /> : <HeartCrack size={36} />}
+      <h2 className="text-5xl font-brand">{mode === 'timed' ? "Time's up!" : 'Out of lives!'}</h2>
+    </div>
+    <p className="text-2xl font-brand text-purple-700">
+      {CHALLENGE_LABELS[mode]}: <span className="text-5xl text-pink-500">{score}</span> {score === 1 ? 'word' : 'words'}
+    </p>
+    {rank === 0 && (
+      <p className="flex items-center gap-2 px-6 py-2 rounded-full bg-yellow-100 text-amber-600 font-brand text-2xl">
+        <Sparkles /> New personal best!
+      </p>
+    )}
+    <PersonalBestTable bests={bests} highlightRank={rank} />
+    <div className="flex flex-col gap-4 w-64 mx-auto">
+      <button onClick={onPlayAgain} className={`${COLORS.button} text-white px-10 py-5 rounded-full text-xl font-brand shadow-xl`}>PLAY AGAIN</button>
+      <button onClick={onBack} className="bg-white text-purple-600 border-4 border-purple-100 px-10 py-4 rounded-full text-xl font-brand">BACK TO STAGES</button>
+    </div>
+  </div>
+);
+
+export default ChallengeResults;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { DailyResult, DailyMark, Outfit } from '../types';
+import { COLORS } from '../constants';
+import { formatDailyShare } from '../utils/daily';
+import KittyMascot from './KittyMascot';
+import { Share2, Check, Flame, XCircle } from 'lucide-react';
+
+interface DailyResultsProps {
+  result: DailyResult;
+  streak: number;
+  bestStreak: number;
+  outfit: Outfit;
+  onBack: () => void;
+}
+
+const MARK_STYLES: Record<DailyMark, string> = {
+  perfect: 'bg-green-400',
+  helped: 'bg-yellow-300',
+  missed: 'bg-red-300',
+};
+
+const DailyResults: React.FC<DailyResultsProps> = ({ result, streak, bestStreak, outfit, onBack }) => {
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const correct = result.marks.filter(m => m !== 'missed').length;
+
+  const share = async () => {
+    const text = formatDailyShare(result, streak);
+    setError(null);
+    if (navigator.share) {
+      try {
+        await navigator.share({ text });
+        return;
+      } catch (err) {
+        // Closing the share sheet rejects with an AbortError; that isn't a failure.
+        if (err instanceof Error && err.name === 'AbortError') return;
+        console.error('Could not open the share sheet, copying instead:', err);
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+    } catch (err) {
+      console.error('Could not copy daily result:', err);
+      setError('Sharing is blocked here. Try again in another browser.');
+    }
+  };
+
+  return (
+    <div className="text-center space-y-8 animate-in fade-in flex flex-col items-center">
+      <KittyMascot className="w-36 h-36" outfit={outfit} />
+      <h2 className="text-5xl font-brand text-purple-700">Daily Challenge</h2>
+      <p className="text-2xl font-brand text-pink-500">{correct} / {result.marks.length} words · {result.date}</p>
+      <div className="flex gap-3" aria-label="Results per word">
+        {result.marks.map((m, i) => <span key={i} className={`w-12 h-12 rounded-xl shadow-inner ${MARK_STYLES[m]}`} title={m} />)}
+      </div>
+      <p className="flex items-center gap-2 font-brand text-2xl text-amber-500">
+        <Flame /> {streak} day streak <span className="text-base font-bold text-purple-400">(best {bestStreak})</span>
+      </p>
+      <button onClick={share} className={`${COLORS.button} text-white px-10 py-4 rounded-full text-xl font-brand shadow-xl flex items-center gap-3`}>
+        {copied ? <><Check /> COPIED!</> : <><Share2 /> SHARE</>}
+      </button>
+      {error && <p role="alert" className="flex items-center gap-2 font-bold text-red-500"><XCircle size={18} /> {error}</p>}
+      <p className="font-bold text-purple-400">A new puzzle arrives tomorrow.</p>
+      <button onClick={onBack} className="bg-white text-purple-600 border-4 border-purple-100 px-10 py-4 rounded-full text-xl font-brand">BACK TO STAGES</button>
+    </div>
+  );
+};
+
+export default DailyResults;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { HintType, InputMode } from '../types';
+import { Lightbulb, MousePointerClick, Split, Snail } from 'lucide-react';
+
+const HINTS: { type: HintType; label: string; Icon: typeof Lightbulb; tilesOnly?: boolean; once?: boolean }[] = [
+  { type: 'revealLetter', label: 'Next letter', Icon: Lightbulb },
+  { type: 'highlightTile', label: 'Show tile', Icon: MousePointerClick, tilesOnly: true },
+  { type: 'syllables', label: 'Syllables', Icon: Split, once: true },
+  { type: 'slowAudio', label: 'Say it slowly', Icon: Snail },
+];
+
+interface HintBarProps {
+  inputMode: InputMode;
+  hintsUsed: HintType[];
+  onHint: (type: HintType) => void;
+}
+
+const HintBar: React.FC<HintBarProps> = ({ inputMode, hintsUsed, onHint }) => (
+  <div className="flex flex-wrap justify-center gap-2">
+    {HINTS.filter(h => !h.tilesOnly || inputMode === 'tiles').map(({ type, label, Icon, once }) => (
+      <button
+        key={type}
+        onClick={() => onHint(type)}
+        disabled={once && hintsUsed.includes(type)}
+        className="flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold bg-yellow-50 text-amber-600 border border-yellow-200 hover:bg-yellow-100 transition-colors disabled:opacity-40"
+      >
+        <Icon size={16} /> {label}
+      </button>
+    ))}
+  </div>
+);
+
+export default HintBar;
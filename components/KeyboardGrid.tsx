@@ -0,0 +1,30 @@
+import React from 'react';
+import { findGridTarget } from '../utils/gridNavigation';
+
+interface KeyboardGridProps {
+  label: string;
+  className: string;
+  children: React.ReactNode;
+}
+
+/** A CSS grid of buttons that the arrow keys move around, reading the column count from the current layout. */
+const KeyboardGrid: React.FC<KeyboardGridProps> = ({ label, className, children }) => {
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const buttons = Array.from<HTMLButtonElement>(e.currentTarget.querySelectorAll('button'));
+    const from = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    if (from < 0) return;
+    const columns = getComputedStyle(e.currentTarget).gridTemplateColumns.split(' ').length;
+    const target = findGridTarget(e.key, from, buttons.map(b => b.disabled), columns);
+    if (target === null) return;
+    e.preventDefault();
+    buttons[target].focus();
+  };
+
+  return (
+    <div role="group" aria-label={label} onKeyDown={onKeyDown} className={className}>
+      {children}
+    </div>
+  );
+};
+
+export default KeyboardGrid;
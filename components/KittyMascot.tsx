@@ -1,17 +1,87 @@
-
 import React from 'react';
+import { Outfit } from '../types';
+import { DEFAULT_FUR } from '../constants';
+import { findOutfitItem } from '../utils/rewards';
+
+// Drawn in the same 200x200 box as Kitty: hats sit between the ears, extras on the face or under the chin.
+const HATS: Record<string, React.ReactNode> = {
+  'hat-bow': (
+    <g fill="#ec4899">
+      <path d="M140 42 L120 28 L122 56 Z" />
+      <path d="M140 42 L160 28 L158 56 Z" />
+      <circle cx="140" cy="42" r="7" fill="#be185d" />
+    </g>
+  ),
+  'hat-party': (
+    <g>
+      <path d="M74 50 L100 4 L126 50 Z" fill="#a855f7" />
+      <path d="M84 32 L116 32 M80 41 L120 41" stroke="#facc15" strokeWidth="4" />
+      <circle cx="100" cy="6" r="7" fill="#facc15" />
+    </g>
+  ),
+  'hat-wizard': (
+    <g>
+      <path d="M72 46 L110 2 L128 46 Z" fill="#6d28d9" />
+      <ellipse cx="100" cy="46" rx="46" ry="8" fill="#4c1d95" />
+      <path d="M104 22 l3 6 6 1 -5 4 1 6 -5 -3 -5 3 1 -6 -5 -4 6 -1 Z" fill="#facc15" />
+    </g>
+  ),
+  'hat-crown': (
+    <g>
+      <path d="M66 48 L66 16 L83 32 L100 8 L117 32 L134 16 L134 48 Z" fill="#facc15" stroke="#ca8a04" strokeWidth="3" strokeLinejoin="round" />
+      <circle cx="100" cy="36" r="5" fill="#ec4899" />
+      <circle cx="80" cy="40" r="4" fill="#a855f7" />
+      <circle cx="120" cy="40" r="4" fill="#a855f7" />
+    </g>
+  ),
+};
+
+const ACCESSORIES: Record<string, React.ReactNode> = {
+  'acc-bowtie': (
+    <g fill="#a855f7">
+      <path d="M78 166 L100 176 L78 186 Z" />
+      <path d="M122 166 L100 176 L122 186 Z" />
+      <circle cx="100" cy="176" r="6" fill="#7e22ce" />
+    </g>
+  ),
+  'acc-glasses': (
+    <g stroke="#1f2937" strokeWidth="4" fill="#ffffff" fillOpacity="0.3">
+      <circle cx="75" cy="100" r="16" />
+      <circle cx="125" cy="100" r="16" />
+      <path d="M91 100 Q100 94 109 100" fill="none" />
+    </g>
+  ),
+  'acc-scarf': (
+    <g fill="#ef4444">
+      <path d="M48 160 Q100 190 152 160 L150 176 Q100 204 50 176 Z" />
+      <rect x="118" y="172" width="16" height="26" rx="4" fill="#dc2626" />
+    </g>
+  ),
+};
+
+const NO_OUTFIT: Outfit = {};
+
+interface KittyMascotProps {
+  className?: string;
+  outfit?: Outfit;
+}
 
-const KittyMascot: React.FC<{ className?: string }> = ({ className }) => (
-  <svg viewBox="0 0 200 200" className={className} xmlns="http://www.w3.org/2000/svg">
-    <circle cx="100" cy="110" r="70" fill="#fbcfe8" />
-    <path d="M50 70 L30 20 L80 50 Z" fill="#fbcfe8" />
-    <path d="M150 70 L170 20 L120 50 Z" fill="#fbcfe8" />
-    <circle cx="75" cy="100" r="8" fill="#4c1d95" />
-    <circle cx="125" cy="100" r="8" fill="#4c1d95" />
-    <path d="M90 120 Q100 135 110 120" stroke="#4c1d95" strokeWidth="4" fill="none" strokeLinecap="round" />
-    <circle cx="100" cy="115" r="5" fill="#ec4899" />
-    <path d="M100 125 L100 145" stroke="#4c1d95" strokeWidth="2" strokeDasharray="2,2" />
-  </svg>
-);
+const KittyMascot: React.FC<KittyMascotProps> = ({ className, outfit = NO_OUTFIT }) => {
+  const fur = findOutfitItem(outfit.color)?.fur ?? DEFAULT_FUR;
+  return (
+    <svg viewBox="0 0 200 200" className={className} xmlns="http://www.w3.org/2000/svg">
+      <circle cx="100" cy="110" r="70" fill={fur} />
+      <path d="M50 70 L30 20 L80 50 Z" fill={fur} />
+      <path d="M150 70 L170 20 L120 50 Z" fill={fur} />
+      <circle cx="75" cy="100" r="8" fill="#4c1d95" />
+      <circle cx="125" cy="100" r="8" fill="#4c1d95" />
+      <path d="M90 120 Q100 135 110 120" stroke="#4c1d95" strokeWidth="4" fill="none" strokeLinecap="round" />
+      <circle cx="100" cy="115" r="5" fill="#ec4899" />
+      <path d="M100 125 L100 145" stroke="#4c1d95" strokeWidth="2" strokeDasharray="2,2" />
+      {outfit.accessory && ACCESSORIES[outfit.accessory]}
+      {outfit.hat && HATS[outfit.hat]}
+    </svg>
+  );
+};
 
 export default KittyMascot;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Delete, CornerDownLeft } from 'lucide-react';
+
+interface OnScreenKeyboardProps {
+  rows: string[]; // the list language's layout; backspace and submit sit on the third row
+  onLetter: (letter: string) => void;
+  onBackspace: () => void;
+  onSubmit: () => void;
+  canSubmit: boolean;
+}
+
+const OnScreenKeyboard: React.FC<OnScreenKeyboardProps> = ({ rows, onLetter, onBackspace, onSubmit, canSubmit }) => (
+  <div className="flex flex-col items-center gap-2 p-4 bg-white/40 rounded-3xl shadow-inner w-full max-w-2xl">
+    {rows.map((row, r) => (
+      <div key={row} className="flex flex-wrap gap-1.5 sm:gap-2 justify-center w-full">
+        {r === 2 && (
+          <button onClick={onBackspace} aria-label="Backspace" className="px-3 h-12 sm:h-14 flex items-center justify-center rounded-xl bg-purple-100 text-purple-600 shadow-md active:scale-95 border-b-4 border-purple-200">
+            <Delete size={22} />
+          </button>
+        )}
+        {[...row].map(letter => (
+          <button key={letter} onClick={() => onLetter(letter)} className="w-8 h-12 sm:w-12 sm:h-14 flex items-center justify-center text-xl sm:text-2xl font-brand rounded-xl bg-white text-purple-600 shadow-md active:scale-95 border-b-4 border-purple-100">
+            {letter}
+          </button>
+        ))}
+        {r === 2 && (
+          <button onClick={onSubmit} disabled={!canSubmit} aria-label="Submit spelling" className="px-3 h-12 sm:h-14 flex items-center justify-center rounded-xl bg-pink-400 text-white shadow-md active:scale-95 border-b-4 border-pink-500 disabled:opacity-50">
+            <CornerDownLeft size={22} />
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+export default OnScreenKeyboard;
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { COLORS } from '../constants';
+import { statsByWord, statsByDate, hardestWords, summarizeAttempts, flattenHistory, wordStatsToCsv, attemptsToCsv, AttemptSummary } from '../utils/analytics';
+import { exportProfile, importProfile } from '../utils/storage';
+import { analyzeErrors } from '../utils/errorPatterns';
+import ProgressChart from './ProgressChart';
+import PracticeReport from './PracticeReport';
+import ResultCodeChecker from './ResultCodeChecker';
+import { Download, Upload, ChevronLeft, CheckCircle2, XCircle } from 'lucide-react';
+
+interface ParentDashboardProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onImport: (profile: Profile) => void;
+  onBack: () => void;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+const oneDecimal = (n: number) => (Math.round(n * 10) / 10).toString();
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const fileSafe = (name: string) => name.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'player';
+
+const SummaryCells: React.FC<{ summary: AttemptSummary }> = ({ summary }) => (
+  <>
+    <td className="px-3 py-2 text-right">{summary.attempts}</td>
+    <td className="px-3 py-2 text-right">{percent(summary.accuracy)}</td>
+    <td className="px-3 py-2 text-right">{oneDecimal(summary.avgMistakes)}</td>
+    <td className="px-3 py-2 text-right">{oneDecimal(summary.avgTime)}s</td>
+    <td className="px-3 py-2 text-right">{percent(summary.skipRate)}</td>
+  </>
+);
+
+const SUMMARY_HEADINGS = ['Tries', 'Correct', 'Mistakes', 'Time', 'Skipped'];
+
+const ParentDashboard: React.FC<ParentDashboardProps> = ({ profiles, activeProfileId, onImport, onBack }) => {
+  const [profileId, setProfileId] = useState(activeProfileId);
+  const [groupBy, setGroupBy] = useState<'word' | 'date'>('word');
+  const [importMessage, setImportMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const profile = profiles.find(p => p.id === profileId) ?? profiles[0];
+  const byWord = statsByWord(profile.history);
+  const byDate = statsByDate(profile.history);
+  const overall = summarizeAttempts(flattenHistory(profile.history));
+  const hardest = hardestWords(byWord, 8);
+  const baseName = `kitty-speller-${fileSafe(profile.name)}`;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importProfile(await file.text());
+      onImport(imported);
+      setProfileId(imported.id);
+      setImportMessage({ ok: true, text: `Restored progress for ${imported.name}.` });
+    } catch (err) {
+      setImportMessage({ ok: false, text: err instanceof Error ? err.message : 'Could not read this file.' });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-4xl mx-auto space-y-8 py-8 animate-in fade-in slide-in-from-bottom-8">
+      <h2 className="text-5xl font-brand text-purple-700">Grown-up Dashboard</h2>
+
+      {profiles.length > 1 && (
+        <select value={profile.id} onChange={e => setProfileId(e.target.value)} className="px-5 py-2 rounded-full bg-white border border-purple-200 font-bold text-purple-600">
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      )}
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 w-full">
+        {([
+          ['Words tried', overall.attempts.toString()],
+          ['Correct', percent(overall.accuracy)],
+          ['Avg mistakes', oneDecimal(overall.avgMistakes)],
+          ['Avg time', `${oneDecimal(overall.avgTime)}s`],
+          ['Skipped', percent(overall.skipRate)],
+        ] as const).map(([label, value]) => (
+          <div key={label} className="p-4 rounded-2xl bg-white shadow-md text-center">
+            <span className="block font-brand text-3xl text-pink-500">{value}</span>
+            <span className="text-sm font-bold text-purple-400">{label}</span>
+          </div>
+        ))}
+      </div>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Progress over time</h3>
+        <ProgressChart days={byDate} />
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Hardest words</h3>
+        {hardest.length === 0 ? (
+          <p className="font-bold text-purple-400">Nothing tricky yet. Words show up here after a couple of tries.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {hardest.map(s => (
+              <span key={s.word} className="px-4 py-2 rounded-full bg-white shadow-sm font-bold text-purple-700">
+                {s.word} <span className="text-pink-400">{percent(s.accuracy)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Spelling patterns</h3>
+        <PracticeReport report={analyzeErrors(profile.history)} />
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="font-brand text-2xl text-purple-700">All practice</h3>
+          <div className="flex rounded-full bg-white border border-purple-200 p-1">
+            {(['word', 'date'] as const).map(g => (
+              <button key={g} onClick={() => setGroupBy(g)} className={`px-4 py-1 rounded-full font-bold transition-colors ${groupBy === g ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>
+                By {g === 'word' ? 'word' : 'day'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="max-h-80 overflow-y-auto rounded-2xl bg-white">
+          <table className="w-full text-sm font-bold text-purple-700">
+            <thead className="sticky top-0 bg-purple-50 text-purple-500">
+              <tr>
+                <th className="px-3 py-2 text-left">{groupBy === 'word' ? 'Word' : 'Day'}</th>
+                {SUMMARY_HEADINGS.map(h => <th key={h} className="px-3 py-2 text-right">{h}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {(groupBy === 'word' ? byWord.map(s => [s.word, s] as const) : [...byDate].reverse().map(s => [s.date, s] as const)).map(([key, s]) => (
+                <tr key={key} className="border-t border-purple-50">
+                  <td className="px-3 py-2">{key}</td>
+                  <SummaryCells summary={s} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Assignment results</h3>
+        <ResultCodeChecker />
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-4">
+        <h3 className="font-brand text-2xl text-purple-700">Export and restore</h3>
+        <div className="flex flex-wrap gap-3">
+          <button onClick={() => downloadFile(`${baseName}-words.csv`, wordStatsToCsv(byWord), 'text/csv')} className="flex items-center gap-2 px-5 py-2 rounded-full bg-white text-purple-600 font-bold border border-purple-200 hover:bg-purple-50"><Download size={18} /> Words CSV</button>
+          <button onClick={() => downloadFile(`${baseName}-attempts.csv`, attemptsToCsv(profile.history), 'text/csv')} className="flex items-center gap-2 px-5 py-2 rounded-full bg-white text-purple-600 font-bold border border-purple-200 hover:bg-purple-50"><Download size={18} /> Every try CSV</button>
+          <button onClick={() => downloadFile(`${baseName}.json`, exportProfile(profile), 'application/json')} className="flex items-center gap-2 px-5 py-2 rounded-full bg-white text-purple-600 font-bold border border-purple-200 hover:bg-purple-50"><Download size={18} /> Backup JSON</button>
+          <label className={`${COLORS.button} text-white px-5 py-2 rounded-full font-bold cursor-pointer flex items-center gap-2`}>
+            <Upload size={18} /> Restore from JSON
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </label>
+        </div>
+        <p className="text-sm font-bold text-pink-400">Restoring a backup replaces that player's progress on this device, or adds them if they're new here.</p>
+        {importMessage && (
+          <p className={`flex items-center gap-2 font-bold ${importMessage.ok ? 'text-green-600' : 'text-red-500'}`}>
+            {importMessage.ok ? <CheckCircle2 size={18} /> : <XCircle size={18} />} {importMessage.text}
+          </p>
+        )}
+      </section>
+
+      <button onClick={onBack} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><ChevronLeft /> Back</button>
+    </div>
+  );
+};
+
+export default ParentDashboard;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { COLORS } from '../constants';
+import { Lock, ChevronLeft } from 'lucide-react';
+
+interface ParentGateProps {
+  onUnlock: () => void;
+  onBack: () => void;
+}
+
+const newQuestion = () => [6 + Math.floor(Math.random() * 7), 6 + Math.floor(Math.random() * 7)] as const;
+
+/** A times-table question that grown-ups answer easily and young kids can't guess. */
+const ParentGate: React.FC<ParentGateProps> = ({ onUnlock, onBack }) => {
+  const [[a, b], setQuestion] = useState(newQuestion);
+  const [answer, setAnswer] = useState('');
+  const [wrong, setWrong] = useState(false);
+
+  const check = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (Number(answer) === a * b) {
+      onUnlock();
+      return;
+    }
+    setWrong(true);
+    setAnswer('');
+    setQuestion(newQuestion());
+  };
+
+  return (
+    <form onSubmit={check} className="flex flex-col items-center w-full max-w-md mx-auto space-y-6 py-8 text-center animate-in fade-in zoom-in">
+      <Lock className="w-16 h-16 text-purple-400" />
+      <h2 className="text-4xl font-brand text-purple-700">Grown-ups only</h2>
+      <p className="font-bold text-pink-400">To open the dashboard, answer this question.</p>
+      <label className="flex items-center gap-3 font-brand text-3xl text-purple-700">
+        {a} × {b} =
+        <input
+          value={answer}
+          onChange={e => { setAnswer(e.target.value.replace(/\D/g, '')); setWrong(false); }}
+          inputMode="numeric"
+          autoFocus
+          aria-label="Answer"
+          className="w-28 px-4 py-2 rounded-xl border-2 border-purple-100 text-center select-text"
+        />
+      </label>
+      {wrong && <p className="font-bold text-red-500">Not quite. Here's another one.</p>}
+      <button type="submit" disabled={!answer} className={`${COLORS.button} text-white px-10 py-3 rounded-full font-brand text-xl shadow-lg disabled:opacity-50`}>OPEN</button>
+      <button type="button" onClick={onBack} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><ChevronLeft /> Back</button>
+    </form>
+  );
+};
+
+export default ParentGate;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { ChallengeResult } from '../types';
+import { Trophy } from 'lucide-react';
+
+interface PersonalBestTableProps {
+  bests: ChallengeResult[];
+  highlightRank?: number;
+}
+
+const PersonalBestTable: React.FC<PersonalBestTableProps> = ({ bests, highlightRank = -1 }) => {
+  if (bests.length === 0) {
+    return <p className="font-bold text-purple-400">No runs yet. Be the first!</p>;
+  }
+  return (
+    <ol className="w-full max-w-sm space-y-2">
+      {bests.map((b, i) => (
+        <li key={`${b.achievedAt}-${i}`} className={`flex items-center gap-3 px-4 py-2 rounded-2xl shadow-sm ${i === highlightRank ? 'bg-yellow-100 border-2 border-yellow-300' : 'bg-white/80'}`}>
+          <span className="w-6 font-brand text-xl text-purple-400">{i + 1}</span>
+          {i === 0 && <Trophy size={18} className="text-yellow-500" />}
+          <span className="flex-1 text-left text-sm font-bold text-purple-500">
+            {b.listName} · {new Date(b.achievedAt).toLocaleDateString()}
+          </span>
+          <span className="font-brand text-2xl text-pink-500">{b.score}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default PersonalBestTable;
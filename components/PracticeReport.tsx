@@ -0,0 +1,52 @@
+import React from 'react';
+import { ErrorReport, PatternReport } from '../utils/errorPatterns';
+import { COLORS } from '../constants';
+import { Target, ChevronLeft } from 'lucide-react';
+
+interface PracticeReportProps {
+  report: ErrorReport;
+  onPractice?: (pattern: PatternReport) => void; // omitted where the report is read-only
+  onBack?: () => void;
+}
+
+const MAX_EXAMPLE_WORDS = 6;
+
+const PracticeReport: React.FC<PracticeReportProps> = ({ report, onPractice, onBack }) => {
+  const weakest = report.patterns[0];
+  return (
+    <div className="flex flex-col items-center w-full max-w-3xl mx-auto space-y-6">
+      {report.patterns.length === 0 ? (
+        <p className="font-bold text-purple-400 text-center">No mix-ups recorded yet. Play a few stages and Kitty will spot what to practice.</p>
+      ) : (
+        <>
+          <p className="text-xl font-bold text-purple-600 text-center">
+            Trickiest so far: <span className="text-pink-500">{weakest.pattern.label}</span>
+          </p>
+          <ul className="w-full space-y-3">
+            {report.patterns.map(p => (
+              <li key={p.pattern.id} className="p-4 rounded-2xl bg-white shadow-md space-y-2">
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 font-brand text-2xl text-purple-700">{p.pattern.label}</span>
+                  <span className="text-sm font-bold text-pink-400">{p.errorCount} {p.errorCount === 1 ? 'mix-up' : 'mix-ups'}</span>
+                  {onPractice && (
+                    <button onClick={() => onPractice(p)} className={`${COLORS.button} text-white px-4 py-2 rounded-full font-brand flex items-center gap-2 shadow`}>
+                      <Target size={18} /> Practice
+                    </button>
+                  )}
+                </div>
+                <p className="text-sm font-bold text-purple-500">{p.pattern.tip}</p>
+                <p className="text-sm text-purple-400 font-bold">{p.words.slice(0, MAX_EXAMPLE_WORDS).join(', ')}</p>
+              </li>
+            ))}
+          </ul>
+          {report.unclassified > 0 && (
+            <p className="text-sm font-bold text-purple-400">{report.unclassified} other {report.unclassified === 1 ? 'slip' : 'slips'} didn't fit a pattern.</p>
+          )}
+        </>
+      )}
+      {onBack && <button onClick={onBack} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><ChevronLeft /> Back to Stages</button>}
+    </div>
+  );
+};
+
+export default PracticeReport;
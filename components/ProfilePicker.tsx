@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Profile } from '../types';
+import { UserPlus, Pencil, Trash2, Check, X } from 'lucide-react';
+
+interface ProfilePickerProps {
+  profiles: Profile[];
+  activeProfileId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const MAX_NAME_LENGTH = 20;
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ profiles, activeProfileId, onSwitch, onCreate, onRename, onDelete }) => {
+  // editingId is a profile id while renaming, 'new' while creating one.
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const startEditing = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+    setConfirmDeleteId(null);
+  };
+
+  const commitEdit = () => {
+    if (draftName.trim()) {
+      if (editingId === 'new') onCreate(draftName);
+      else if (editingId) onRename(editingId, draftName);
+    }
+    setEditingId(null);
+  };
+
+  const nameInput = (
+    <form onSubmit={e => { e.preventDefault(); commitEdit(); }} className="flex items-center gap-1 bg-white rounded-full pl-4 pr-1 py-1 shadow-md border-2 border-pink-300">
+      <input
+        autoFocus
+        value={draftName}
+        maxLength={MAX_NAME_LENGTH}
+        onChange={e => setDraftName(e.target.value)}
+        placeholder="Name"
+        className="w-28 outline-none font-bold text-purple-700 bg-transparent select-text"
+      />
+      <button type="submit" aria-label="Save name" className="p-1.5 rounded-full text-green-600 hover:bg-green-50"><Check size={18} /></button>
+      <button type="button" onClick={() => setEditingId(null)} aria-label="Cancel" className="p-1.5 rounded-full text-gray-400 hover:bg-gray-100"><X size={18} /></button>
+    </form>
+  );
+
+  return (
+    <div className="flex flex-wrap justify-center items-center gap-3 max-w-2xl">
+      {profiles.map(p => {
+        const isActive = p.id === activeProfileId;
+        if (editingId === p.id) return <React.Fragment key={p.id}>{nameInput}</React.Fragment>;
+        return (
+          <div key={p.id} className={`flex items-center gap-1 rounded-full pl-4 pr-1 py-1 shadow-md transition-all ${isActive ? 'bg-purple-500 text-white scale-105' : 'bg-white/80 text-purple-600 hover:bg-white'}`}>
+            <button onClick={() => onSwitch(p.id)} className="font-bold text-lg pr-1">{p.name}</button>
+            {isActive && confirmDeleteId !== p.id && (
+              <>
+                <button onClick={() => startEditing(p.id, p.name)} aria-label={`Rename ${p.name}`} className="p-1.5 rounded-full hover:bg-white/20"><Pencil size={16} /></button>
+                {profiles.length > 1 && (
+                  <button onClick={() => setConfirmDeleteId(p.id)} aria-label={`Delete ${p.name}`} className="p-1.5 rounded-full hover:bg-white/20"><Trash2 size={16} /></button>
+                )}
+              </>
+            )}
+            {confirmDeleteId === p.id && (
+              <>
+                <button onClick={() => { onDelete(p.id); setConfirmDeleteId(null); }} className="px-3 py-1 rounded-full bg-red-500 text-white text-sm font-bold">Delete?</button>
+                <button onClick={() => setConfirmDeleteId(null)} aria-label="Keep profile" className="p-1.5 rounded-full hover:bg-white/20"><X size={16} /></button>
+              </>
+            )}
+          </div>
+        );
+      })}
+      {editingId === 'new' ? nameInput : (
+        <button onClick={() => startEditing('new', '')} className="flex items-center gap-2 rounded-full px-4 py-2 bg-white/60 text-purple-500 font-bold border-2 border-dashed border-purple-300 hover:bg-white transition-colors">
+          <UserPlus size={18} /> New player
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
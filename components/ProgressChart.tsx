@@ -0,0 +1,52 @@
+import React from 'react';
+import { DayStats } from '../utils/analytics';
+
+interface ProgressChartProps {
+  days: DayStats[];
+  maxDays?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = 28;
+
+/** Words tried per day as bars, with accuracy drawn as a line over them. */
+const ProgressChart: React.FC<ProgressChartProps> = ({ days, maxDays = 30 }) => {
+  const shown = days.slice(-maxDays);
+  if (shown.length === 0) {
+    return <p className="font-bold text-purple-400">No practice yet.</p>;
+  }
+  const maxAttempts = Math.max(...shown.map(d => d.attempts));
+  const slot = (WIDTH - PAD * 2) / shown.length;
+  const x = (i: number) => PAD + slot * i + slot / 2;
+  const y = (share: number) => HEIGHT - PAD - share * (HEIGHT - PAD * 2);
+  const accuracyLine = shown.map((d, i) => `${x(i)},${y(d.accuracy)}`).join(' ');
+
+  return (
+    <figure className="w-full">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Words practiced and accuracy per day">
+        {[0, 0.5, 1].map(share => (
+          <g key={share}>
+            <line x1={PAD} x2={WIDTH - PAD} y1={y(share)} y2={y(share)} stroke="#e9d5ff" strokeDasharray="4 4" />
+            <text x={PAD - 4} y={y(share) + 4} textAnchor="end" fontSize="10" fill="#a855f7">{share * 100}%</text>
+          </g>
+        ))}
+        {shown.map((d, i) => (
+          <rect key={d.date} x={x(i) - slot * 0.3} width={slot * 0.6} y={y(d.attempts / maxAttempts)} height={y(0) - y(d.attempts / maxAttempts)} rx="3" fill="#fbcfe8">
+            <title>{`${d.date}: ${d.attempts} words, ${Math.round(d.accuracy * 100)}% correct`}</title>
+          </rect>
+        ))}
+        <polyline points={accuracyLine} fill="none" stroke="#a855f7" strokeWidth="3" strokeLinejoin="round" />
+        {shown.map((d, i) => <circle key={d.date} cx={x(i)} cy={y(d.accuracy)} r="4" fill="#a855f7" />)}
+        <text x={PAD} y={HEIGHT - 8} fontSize="10" fill="#a855f7">{shown[0].date}</text>
+        <text x={WIDTH - PAD} y={HEIGHT - 8} fontSize="10" fill="#a855f7" textAnchor="end">{shown[shown.length - 1].date}</text>
+      </svg>
+      <figcaption className="flex justify-center gap-6 text-sm font-bold text-purple-500">
+        <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm bg-pink-200" /> Words practiced (max {maxAttempts})</span>
+        <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-full bg-purple-500" /> Accuracy</span>
+      </figcaption>
+    </figure>
+  );
+};
+
+export default ProgressChart;
@@ -0,0 +1,35 @@
+import React, { useState } from 'react';
+import { Copy, Check, Send, XCircle } from 'lucide-react';
+
+interface ResultCodeCardProps {
+  code: string;
+}
+
+const ResultCodeCard: React.FC<ResultCodeCardProps> = ({ code }) => {
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setError(null);
+    } catch (err) {
+      console.error('Could not copy result code:', err);
+      setError('Copying is blocked here. Select the code and copy it by hand.');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto p-5 bg-white/70 rounded-3xl shadow-inner space-y-3">
+      <p className="flex items-center justify-center gap-2 font-brand text-xl text-purple-700"><Send size={20} /> Send this code to your teacher</p>
+      <textarea readOnly value={code} rows={3} onFocus={e => e.target.select()} className="w-full px-3 py-2 rounded-xl border-2 border-purple-100 text-xs text-purple-700 break-all select-text resize-none" aria-label="Result code" />
+      <button onClick={copy} className="mx-auto flex items-center gap-2 px-5 py-2 rounded-full bg-purple-500 text-white font-bold">
+        {copied ? <><Check size={18} /> Copied</> : <><Copy size={18} /> Copy code</>}
+      </button>
+      {error && <p role="alert" className="flex items-center justify-center gap-2 font-bold text-red-500"><XCircle size={18} /> {error}</p>}
+    </div>
+  );
+};
+
+export default ResultCodeCard;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { AssignmentResult, readResultCode } from '../utils/assignments';
+import { Star, CheckCircle2, XCircle, Search } from 'lucide-react';
+
+/** Where a teacher pastes a student's result code to read it. */
+const ResultCodeChecker: React.FC = () => {
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<AssignmentResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const check = async () => {
+    try {
+      setResult(await readResultCode(code));
+      setError(null);
+    } catch (err) {
+      console.error('Could not read result code:', err);
+      setResult(null);
+      setError('That code could not be read. Check that it was copied in full.');
+    }
+  };
+
+  const played = result?.words.filter((w): w is NonNullable<typeof w> => w !== null) ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <input value={code} onChange={e => setCode(e.target.value)} placeholder="Paste a result code" className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-purple-100 text-sm text-purple-700 select-text" />
+        <button onClick={check} disabled={!code.trim()} className="flex items-center gap-2 px-5 py-2 rounded-full bg-purple-500 text-white font-bold disabled:opacity-50"><Search size={18} /> Check</button>
+      </div>
+      {error && <p className="flex items-center gap-2 font-bold text-red-500"><XCircle size={18} /> {error}</p>}
+      {result && (
+        <div className="p-4 rounded-2xl bg-white space-y-2">
+          <p className="font-brand text-xl text-purple-700">{result.player} · {result.assignment}</p>
+          <p className="text-sm font-bold text-purple-400">
+            {new Date(result.finishedAt).toLocaleString()} · {played.filter(w => w.correct).length} of {result.words.length} words correct
+            {played.length < result.words.length && ` · ${result.words.length - played.length} not played`}
+          </p>
+          <div className="flex flex-wrap gap-3">
+            {result.stars.map((stars, i) => (
+              <span key={i} className="flex items-center gap-1 text-sm font-bold text-purple-600">
+                Stage {i + 1}
+                {Array.from({ length: 3 }).map((_, s) => <Star key={s} size={14} className={s < stars ? 'fill-yellow-400 text-yellow-500' : 'text-gray-300'} />)}
+              </span>
+            ))}
+          </div>
+          <ul className="flex flex-wrap gap-2">
+            {played.map(w => (
+              <li key={w.word} className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-bold ${w.correct ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-600'}`}>
+                {w.correct ? <CheckCircle2 size={14} /> : <XCircle size={14} />} {w.word}
+                {w.mistakes > 0 && <span className="text-xs opacity-70">{w.mistakes} slips</span>}
+                {w.hints > 0 && <span className="text-xs opacity-70">{w.hints} hints</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResultCodeChecker;
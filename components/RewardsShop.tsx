@@ -0,0 +1,80 @@
+import React from 'react';
+import { OutfitItem, OutfitSlot, Rewards } from '../types';
+import { OUTFIT_ITEMS, OUTFIT_SLOT_LABELS } from '../constants';
+import { ACHIEVEMENTS } from '../utils/achievements';
+import { canBuy } from '../utils/rewards';
+import KittyMascot from './KittyMascot';
+import { Coins, Check, Lock, Trophy, ChevronLeft } from 'lucide-react';
+
+interface RewardsShopProps {
+  rewards: Rewards;
+  onBuy: (item: OutfitItem) => void;
+  onEquip: (item: OutfitItem) => void;
+  onUnequip: (slot: OutfitSlot) => void;
+  onBack: () => void;
+}
+
+const SLOTS = Object.keys(OUTFIT_SLOT_LABELS) as OutfitSlot[];
+
+const RewardsShop: React.FC<RewardsShopProps> = ({ rewards, onBuy, onEquip, onUnequip, onBack }) => (
+  <div className="flex flex-col items-center w-full max-w-3xl mx-auto space-y-8 py-8 animate-in fade-in slide-in-from-bottom-8">
+    <h2 className="text-5xl font-brand text-purple-700">Kitty's Closet</h2>
+    <KittyMascot className="w-40 h-40 drop-shadow-xl" outfit={rewards.outfit} />
+    <p className="flex items-center gap-2 px-6 py-2 rounded-full bg-yellow-100 text-amber-600 font-brand text-2xl">
+      <Coins /> {rewards.coins} coins
+    </p>
+
+    {SLOTS.map(slot => (
+      <section key={slot} className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">{OUTFIT_SLOT_LABELS[slot]}</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {OUTFIT_ITEMS.filter(item => item.slot === slot).map(item => {
+            const owned = rewards.owned.includes(item.id);
+            const wearing = rewards.outfit[slot] === item.id;
+            return (
+              <div key={item.id} className={`flex flex-col items-center gap-2 p-3 rounded-2xl bg-white shadow-sm border-b-4 ${wearing ? 'border-pink-400' : 'border-purple-100'}`}>
+                <KittyMascot className="w-16 h-16" outfit={{ ...rewards.outfit, [slot]: item.id }} />
+                <span className="font-bold text-purple-700 text-sm">{item.label}</span>
+                {wearing ? (
+                  <button onClick={() => onUnequip(slot)} className="flex items-center gap-1 px-3 py-1 rounded-full bg-purple-500 text-white text-sm font-bold">
+                    <Check size={14} /> Wearing
+                  </button>
+                ) : owned ? (
+                  <button onClick={() => onEquip(item)} className="px-3 py-1 rounded-full bg-purple-100 text-purple-600 text-sm font-bold hover:bg-purple-200 transition-colors">Wear</button>
+                ) : (
+                  <button onClick={() => onBuy(item)} disabled={!canBuy(rewards, item)} aria-label={`Buy ${item.label} for ${item.price} coins`} className="flex items-center gap-1 px-3 py-1 rounded-full bg-yellow-100 text-amber-600 text-sm font-bold disabled:opacity-50">
+                    <Coins size={14} /> {item.price}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    ))}
+
+    <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+      <h3 className="font-brand text-2xl text-purple-700">Achievements</h3>
+      <p className="text-sm font-bold text-pink-400">Each new star on a stage earns coins too.</p>
+      <ul className="space-y-2">
+        {ACHIEVEMENTS.map(a => {
+          const earned = a.id in rewards.achievements;
+          return (
+            <li key={a.id} className={`flex items-center gap-3 p-3 rounded-2xl bg-white shadow-sm ${earned ? '' : 'opacity-60'}`}>
+              {earned ? <Trophy className="text-amber-500" /> : <Lock className="text-gray-400" />}
+              <span className="flex-1">
+                <span className="block font-bold text-purple-700">{a.title}</span>
+                <span className="text-sm text-purple-400 font-bold">{a.description}</span>
+              </span>
+              <span className="flex items-center gap-1 text-sm font-bold text-amber-600"><Coins size={14} /> {a.coins}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+
+    <button onClick={onBack} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><ChevronLeft /> Back</button>
+  </div>
+);
+
+export default RewardsShop;
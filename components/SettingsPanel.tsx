@@ -0,0 +1,106 @@
+import React from 'react';
+import { ProfileSettings, SpeechProviderId, ThemeId, TileDifficulty } from '../types';
+import { SPEECH_PROVIDER_IDS, TILE_DIFFICULTY_CONFIG, STAGE_SIZE_OPTIONS, THEMES } from '../constants';
+import { SPEECH_PROVIDER_LABELS } from '../utils/speech';
+import { ChevronUp, ChevronDown, ChevronLeft } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: ProfileSettings;
+  onChange: (changes: Partial<ProfileSettings>) => void;
+  onBack: () => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onBack }) => {
+  const { speechOrder } = settings;
+  // Enabled providers in priority order, then the disabled ones.
+  const rows: SpeechProviderId[] = [...speechOrder, ...SPEECH_PROVIDER_IDS.filter(id => !speechOrder.includes(id))];
+
+  const toggleProvider = (id: SpeechProviderId) => {
+    onChange({ speechOrder: speechOrder.includes(id) ? speechOrder.filter(p => p !== id) : [...speechOrder, id] });
+  };
+
+  const moveProvider = (idx: number, delta: number) => {
+    const next = [...speechOrder];
+    [next[idx], next[idx + delta]] = [next[idx + delta], next[idx]];
+    onChange({ speechOrder: next });
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-2xl mx-auto space-y-8 py-8 animate-in fade-in slide-in-from-bottom-8">
+      <h2 className="text-5xl font-brand text-purple-700">Settings</h2>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Letter tiles</h3>
+        <p className="text-sm font-bold text-pink-400">Harder levels add more tiles, including letters that are easy to mix up.</p>
+        <div className="flex rounded-full bg-white border border-purple-200 p-1 w-fit">
+          {(Object.keys(TILE_DIFFICULTY_CONFIG) as TileDifficulty[]).map(level => (
+            <button key={level} onClick={() => onChange({ tileDifficulty: level })} className={`px-5 py-2 rounded-full font-bold transition-colors ${settings.tileDifficulty === level ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>
+              {TILE_DIFFICULTY_CONFIG[level].label}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Words per stage</h3>
+        <p className="text-sm font-bold text-pink-400">Stages go from easiest to hardest words. Your stars stay with the words you earned them on.</p>
+        <div className="flex rounded-full bg-white border border-purple-200 p-1 w-fit">
+          {STAGE_SIZE_OPTIONS.map(size => (
+            <button key={size} onClick={() => onChange({ wordsPerStage: size })} className={`px-5 py-2 rounded-full font-bold transition-colors ${settings.wordsPerStage === size ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>
+              {size}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner">
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={settings.hintsEnabled} onChange={e => onChange({ hintsEnabled: e.target.checked })} className="w-5 h-5 accent-purple-500" />
+          <span className="font-brand text-2xl text-purple-700">Hints</span>
+        </label>
+        <p className="text-sm font-bold text-pink-400 mt-1">Words spelled with hints still count, but earn fewer stars.</p>
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Look and feel</h3>
+        <div className="flex rounded-full bg-white border border-purple-200 p-1 w-fit" role="radiogroup" aria-label="Colors">
+          {(Object.keys(THEMES) as ThemeId[]).map(id => (
+            <button key={id} role="radio" aria-checked={settings.theme === id} onClick={() => onChange({ theme: id })} className={`px-5 py-2 rounded-full font-bold transition-colors ${settings.theme === id ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-100'}`}>
+              {THEMES[id].label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={settings.reducedMotion} onChange={e => onChange({ reducedMotion: e.target.checked })} className="w-5 h-5 accent-purple-500" />
+          <span className="font-bold text-purple-700">Less motion</span>
+        </label>
+        <p className="text-sm font-bold text-pink-400 -mt-2 ml-8">No confetti, bouncing or sliding. Always on if your device asks for less motion.</p>
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={settings.dyslexiaFont} onChange={e => onChange({ dyslexiaFont: e.target.checked })} className="w-5 h-5 accent-purple-500" />
+          <span className="font-bold text-purple-700">Dyslexia-friendly letters</span>
+        </label>
+      </section>
+
+      <section className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-3">
+        <h3 className="font-brand text-2xl text-purple-700">Kitty's voice</h3>
+        <p className="text-sm font-bold text-pink-400">Kitty tries these from top to bottom until one works.</p>
+        {rows.map(id => {
+          const idx = speechOrder.indexOf(id);
+          const enabled = idx >= 0;
+          return (
+            <div key={id} className={`flex items-center gap-3 p-3 rounded-2xl bg-white shadow-sm ${enabled ? '' : 'opacity-50'}`}>
+              <input type="checkbox" checked={enabled} onChange={() => toggleProvider(id)} className="w-5 h-5 accent-purple-500" aria-label={`Use ${SPEECH_PROVIDER_LABELS[id]}`} />
+              <span className="flex-1 font-bold text-purple-700">{enabled ? `${idx + 1}. ` : ''}{SPEECH_PROVIDER_LABELS[id]}</span>
+              <button onClick={() => moveProvider(idx, -1)} disabled={!enabled || idx === 0} aria-label="Move up" className="p-1 rounded-lg text-purple-500 hover:bg-purple-100 disabled:opacity-30"><ChevronUp /></button>
+              <button onClick={() => moveProvider(idx, 1)} disabled={!enabled || idx === speechOrder.length - 1} aria-label="Move down" className="p-1 rounded-lg text-purple-500 hover:bg-purple-100 disabled:opacity-30"><ChevronDown /></button>
+            </div>
+          );
+        })}
+      </section>
+
+      <button onClick={onBack} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><ChevronLeft /> Back</button>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { DiffPart } from '../types';
+
+const PART_STYLES: Record<DiffPart['kind'], string> = {
+  match: 'bg-green-100 text-green-700 border-green-400',
+  wrong: 'bg-red-100 text-red-600 border-red-400',
+  extra: 'bg-orange-50 text-orange-400 border-orange-300 line-through',
+  missing: 'bg-white/40 text-purple-400 border-dashed border-purple-300',
+};
+
+/** Shows the child's spelling letter by letter with the correct letter underneath each error. */
+const SpellingDiffView: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <div className="flex gap-1.5 flex-wrap justify-center">
+    {parts.map((part, i) => (
+      <div key={i} className="flex flex-col items-center gap-1">
+        <div className={`w-11 h-14 border-b-4 rounded-t-lg flex items-center justify-center text-3xl font-brand ${PART_STYLES[part.kind]}`}>
+          {part.kind === 'missing' ? '_' : part.typed}
+        </div>
+        <span className="h-6 text-lg font-brand text-purple-600">
+          {part.kind === 'match' || part.kind === 'extra' ? '' : part.expected}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default SpellingDiffView;
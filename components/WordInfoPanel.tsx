@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { WordData, WordInfoField } from '../types';
+import { maskWord } from '../utils/helpers';
+import { BookOpen, MessageSquareQuote, Tag, Globe } from 'lucide-react';
+
+const FIELDS: { field: WordInfoField; label: string; spoken: string; Icon: typeof BookOpen }[] = [
+  { field: 'definition', label: 'Definition', spoken: 'The definition is', Icon: BookOpen },
+  { field: 'sentence', label: 'Sentence', spoken: '', Icon: MessageSquareQuote },
+  { field: 'partOfSpeech', label: 'Part of speech', spoken: 'It is a', Icon: Tag },
+  { field: 'origin', label: 'Origin', spoken: 'It comes from', Icon: Globe },
+];
+
+interface WordInfoPanelProps {
+  entry: WordData;
+  locale: string; // the word's language, for matching it case-insensitively in the text
+  onSpeak: (text: string) => void;
+}
+
+/** The questions a speller may ask in a real bee. Text on screen never shows the word itself. */
+const WordInfoPanel: React.FC<WordInfoPanelProps> = ({ entry, locale, onSpeak }) => {
+  const [shown, setShown] = useState<WordInfoField | null>(null);
+  const available = FIELDS.filter(f => entry[f.field]);
+  if (available.length === 0) return null;
+
+  const ask = (field: WordInfoField, spoken: string) => {
+    const value = entry[field]!;
+    setShown(field);
+    onSpeak(spoken ? `${spoken} ${value}` : value);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3 w-full">
+      <div className="flex flex-wrap justify-center gap-2">
+        {available.map(({ field, label, spoken, Icon }) => (
+          <button key={field} onClick={() => ask(field, spoken)} className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold border transition-colors ${shown === field ? 'bg-purple-500 text-white border-purple-500' : 'bg-white/70 text-purple-600 border-purple-200 hover:bg-white'}`}>
+            <Icon size={16} /> {label}
+          </button>
+        ))}
+      </div>
+      {shown && (
+        <p className="max-w-xl px-5 py-3 rounded-2xl bg-white/80 text-purple-700 text-lg text-center shadow-sm">
+          {maskWord(entry[shown]!, entry.word, locale)}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default WordInfoPanel;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { LanguageCode, WordList } from '../types';
+import { COLORS, LANGUAGES } from '../constants';
+import { parseWordListFile, findMissingAudio, createWordList, ParsedWordList } from '../utils/wordLists';
+import { getLanguage } from '../utils/languages';
+import AssignmentBuilder from './AssignmentBuilder';
+import { Upload, Check, Trash2, AlertTriangle, XCircle, Loader2, ChevronLeft, Share2, ClipboardList, X } from 'lucide-react';
+
+interface WordListManagerProps {
+  lists: WordList[];
+  activeListId: string;
+  onSelect: (id: string) => void;
+  onSave: (list: WordList) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+}
+
+const WordListManager: React.FC<WordListManagerProps> = ({ lists, activeListId, onSelect, onSave, onDelete, onBack }) => {
+  const [pending, setPending] = useState<ParsedWordList | null>(null);
+  // Kept so the file can be checked again when a different language is picked.
+  const [pendingFile, setPendingFile] = useState<{ text: string; name: string } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [sharing, setSharing] = useState<WordList | null>(null);
+  // Deleting a list also wipes every player's stars on it, so it takes a second tap.
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const checkFile = async (text: string, fileName: string, language?: LanguageCode) => {
+    setIsChecking(true);
+    try {
+      const parsed = parseWordListFile(text, fileName, language);
+      const missing = await findMissingAudio(parsed.words);
+      setPending(prev => ({ ...parsed, name: prev?.name ?? parsed.name, issues: [...parsed.issues, ...missing] }));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setPendingFile({ text, name: file.name });
+    await checkFile(text, file.name);
+  };
+
+  const changeLanguage = (language: LanguageCode) => {
+    if (pendingFile) checkFile(pendingFile.text, pendingFile.name, language);
+  };
+
+  const cancelPending = () => {
+    setPending(null);
+    setPendingFile(null);
+  };
+
+  const savePending = () => {
+    if (!pending || pending.words.length === 0) return;
+    onSave(createWordList(pending.name, pending.words, pending.language));
+    cancelPending();
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-3xl mx-auto space-y-8 py-8 animate-in fade-in slide-in-from-bottom-8">
+      <h2 className="text-5xl font-brand text-purple-700">Word Lists</h2>
+
+      <div className="w-full space-y-3">
+        {lists.map(list => (
+          <div key={list.id} className={`flex items-center gap-4 p-4 rounded-2xl bg-white shadow-md border-b-4 ${list.id === activeListId ? 'border-pink-400' : 'border-purple-100'}`}>
+            <button onClick={() => onSelect(list.id)} className="flex-1 text-left">
+              <span className="block font-brand text-2xl text-purple-700">{list.name}</span>
+              <span className="text-sm font-bold text-pink-400">
+                {list.words.length} words
+                {list.language && list.language !== 'en' && <span className="ml-3 text-purple-400">{getLanguage(list.language).label}</span>}
+                {list.assignment && <span className="inline-flex items-center gap-1 ml-3 text-purple-400"><ClipboardList size={14} /> Assignment</span>}
+              </span>
+            </button>
+            {list.id === activeListId && <Check className="text-pink-500" />}
+            <button onClick={() => setSharing(list)} className="p-2 text-gray-400 hover:text-purple-500 transition-colors" aria-label={`Share ${list.name} as an assignment`}>
+              <Share2 size={20} />
+            </button>
+            {!list.isBuiltIn && confirmDeleteId !== list.id && (
+              <button onClick={() => setConfirmDeleteId(list.id)} className="p-2 text-gray-400 hover:text-red-500 transition-colors" aria-label={`Delete ${list.name}`}>
+                <Trash2 size={20} />
+              </button>
+            )}
+            {confirmDeleteId === list.id && (
+              <>
+                <button onClick={() => { onDelete(list.id); setConfirmDeleteId(null); }} className="px-3 py-1 rounded-full bg-red-500 text-white text-sm font-bold">Delete?</button>
+                <button onClick={() => setConfirmDeleteId(null)} aria-label="Keep list" className="p-2 text-gray-400 hover:text-purple-500 transition-colors"><X size={20} /></button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {sharing && <AssignmentBuilder key={sharing.id} list={sharing} onClose={() => setSharing(null)} />}
+
+      {!pending && (
+        <label className={`${COLORS.button} text-white px-8 py-4 rounded-full text-xl font-brand shadow-xl cursor-pointer flex items-center gap-3 hover:scale-105 transition-transform`}>
+          {isChecking ? <Loader2 className="animate-spin" /> : <Upload />} IMPORT JSON / CSV
+          <input type="file" accept=".json,.csv,.txt,application/json,text/csv" className="hidden" onChange={handleFile} />
+        </label>
+      )}
+
+      {pending && (
+        <div className="w-full p-6 bg-white/70 rounded-3xl shadow-inner space-y-4">
+          <input
+            value={pending.name}
+            onChange={e => setPending({ ...pending, name: e.target.value })}
+            className="w-full px-4 py-3 rounded-xl border-2 border-purple-100 font-brand text-2xl text-purple-700 select-text"
+          />
+          <label className="flex items-center gap-3 font-bold text-purple-600">
+            Language
+            <select value={pending.language} onChange={e => changeLanguage(e.target.value as LanguageCode)} disabled={isChecking} className="px-3 py-2 rounded-xl border-2 border-purple-100 bg-white text-purple-700">
+              {(Object.keys(LANGUAGES) as LanguageCode[]).map(code => <option key={code} value={code}>{LANGUAGES[code].label}</option>)}
+            </select>
+            {isChecking && <Loader2 className="animate-spin" size={18} />}
+          </label>
+          <p className="font-bold text-pink-500">{pending.words.length} words ready</p>
+          {pending.issues.length > 0 && (
+            <ul className="max-h-56 overflow-y-auto space-y-1 text-sm">
+              {pending.issues.map((issue, i) => (
+                <li key={i} className={`flex items-center gap-2 ${issue.severity === 'error' ? 'text-red-500' : 'text-amber-600'}`}>
+                  {issue.severity === 'error' ? <XCircle size={16} /> : <AlertTriangle size={16} />}
+                  <span className="font-bold">{issue.word}</span> {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-3">
+            <button onClick={savePending} disabled={pending.words.length === 0} className={`${COLORS.button} text-white px-8 py-3 rounded-full font-brand text-lg shadow-lg disabled:opacity-50`}>SAVE LIST</button>
+            <button onClick={cancelPending} className="bg-white text-purple-600 border-4 border-purple-100 px-8 py-2 rounded-full font-brand text-lg">CANCEL</button>
+          </div>
+        </div>
+      )}
+
+      <button onClick={onBack} className="flex items-center gap-2 text-purple-500 font-bold hover:text-pink-600 transition-colors"><ChevronLeft /> Back to Stages</button>
+    </div>
+  );
+};
+
+export default WordListManager;
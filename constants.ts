@@ -1,5 +1,5 @@
 
-import { WordData } from './types.ts';
+import { WordData, WordList, SpeechProviderId, TileDifficulty, HintType, ChallengeMode, LanguageCode, LanguageConfig, ThemeId, ThemeConfig, ThemeColor, OutfitItem, OutfitSlot } from './types.ts';
 
 /**
  * WORDS CONFIGURATION
@@ -35,15 +35,181 @@ export const WORDS: WordData[] = RAW_WORDS.map(w => ({
   audio: `audio/${w.toLowerCase()}.mp3`
 }));
 
+export const BUILT_IN_LIST_ID = 'built-in';
+
+export const DEFAULT_WORD_LIST: WordList = {
+  id: BUILT_IN_LIST_ID,
+  name: 'Kitty Classics',
+  words: WORDS,
+  isBuiltIn: true,
+};
+
+export const WORDS_PER_STAGE = 10; // default; players and assignments can pick another size
+export const STAGE_SIZE_OPTIONS = [5, 10, 15, 20];
+
+/**
+ * How much of a word's credit each hint costs. A correct word with hints
+ * still earns at least MIN_HINTED_CREDIT, so asking for help beats skipping.
+ */
+export const HINT_COSTS: Record<HintType, number> = {
+  revealLetter: 0.25,
+  highlightTile: 0.15,
+  syllables: 0.25,
+  slowAudio: 0.1,
+};
+
+export const MIN_HINTED_CREDIT = 0.25;
+
+export const TIMED_START_SECONDS = 60;
+export const TIMED_BONUS_SECONDS = 5; // for a word spelled with no mistakes or hints
+export const STARTING_LIVES = 3;
+export const MAX_PERSONAL_BESTS = 5;
+
+export const CHALLENGE_LABELS: Record<ChallengeMode, string> = {
+  timed: 'Beat the Clock',
+  lives: 'Three Lives',
+};
+
+// The daily challenge always uses the built-in words and medium tiles, so every device gets the same puzzle.
+export const DAILY_WORD_COUNT = 5;
+export const DAILY_TILE_DIFFICULTY: TileDifficulty = 'medium';
+
+export const BEE_MIN_PLAYERS = 2;
+export const BEE_MAX_PLAYERS = 8;
+export const BEE_ROUND_OPTIONS = [3, 5, 10];
+
+// Coins for each star a player adds to their best on a stage; replaying for the same stars earns nothing.
+export const COINS_PER_STAR = 5;
+
+export const DEFAULT_FUR = '#fbcfe8';
+
+export const OUTFIT_SLOT_LABELS: Record<OutfitSlot, string> = {
+  color: 'Fur',
+  hat: 'Hats',
+  accessory: 'Extras',
+};
+
+/** Everything in Kitty's shop. KittyMascot draws each item by id. */
+export const OUTFIT_ITEMS: OutfitItem[] = [
+  { id: 'fur-snow', slot: 'color', label: 'Snow', price: 30, fur: '#f1f5f9' },
+  { id: 'fur-ginger', slot: 'color', label: 'Ginger', price: 30, fur: '#fdba74' },
+  { id: 'fur-lilac', slot: 'color', label: 'Lilac', price: 40, fur: '#ddd6fe' },
+  { id: 'fur-mint', slot: 'color', label: 'Mint', price: 40, fur: '#bbf7d0' },
+  { id: 'hat-bow', slot: 'hat', label: 'Hair bow', price: 25 },
+  { id: 'hat-party', slot: 'hat', label: 'Party hat', price: 40 },
+  { id: 'hat-wizard', slot: 'hat', label: 'Wizard hat', price: 60 },
+  { id: 'hat-crown', slot: 'hat', label: 'Crown', price: 100 },
+  { id: 'acc-bowtie', slot: 'accessory', label: 'Bow tie', price: 30 },
+  { id: 'acc-glasses', slot: 'accessory', label: 'Glasses', price: 45 },
+  { id: 'acc-scarf', slot: 'accessory', label: 'Scarf', price: 50 },
+];
+
+export const SPEECH_PROVIDER_IDS: SpeechProviderId[] = ['static', 'gemini', 'webSpeech'];
+
 export const EXTRA_TILES_COUNT = 5;
+
+/**
+ * extraTiles: distractor tiles added to the word's letters.
+ * trickyShare: fraction of those picked from letters that are easy to confuse with the word's spelling.
+ */
+export const TILE_DIFFICULTY_CONFIG: Record<TileDifficulty, { label: string; extraTiles: number; trickyShare: number }> = {
+  easy: { label: 'Easy', extraTiles: 3, trickyShare: 0 },
+  medium: { label: 'Medium', extraTiles: EXTRA_TILES_COUNT, trickyShare: 0.4 },
+  hard: { label: 'Hard', extraTiles: 7, trickyShare: 1 },
+};
 export const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
 
-export const COLORS = {
-  primary: 'text-purple-600',
-  secondary: 'text-pink-500',
-  bg: 'bg-pink-100',
-  accent: 'bg-purple-200',
-  button: 'bg-gradient-to-r from-pink-400 to-purple-400',
-  correct: 'bg-green-400',
-  incorrect: 'bg-red-400',
+const QWERTY_ROWS = ['QWERTYUIOP', 'ASDFGHJKL', 'ZXCVBNM'];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * Each list's language brings its alphabet, keyboard and upper-casing.
+ * Accented letters get their unaccented base letter (and its other accented
+ * forms) as distractors automatically; lookAlikes covers letters that
+ * don't decompose, like Œ or ẞ.
+ */
+export const LANGUAGES: Record<LanguageCode, LanguageConfig> = {
+  en: { label: 'English', locale: 'en-US', alphabet: ALPHABET, keyboardRows: QWERTY_ROWS },
+  es: {
+    label: 'Español',
+    locale: 'es-ES',
+    alphabet: [...ALPHABET, ...'ÑÁÉÍÓÚÜ'],
+    keyboardRows: ['QWERTYUIOP', 'ASDFGHJKLÑ', 'ZXCVBNM', 'ÁÉÍÓÚÜ'],
+  },
+  fr: {
+    label: 'Français',
+    locale: 'fr-FR',
+    alphabet: [...ALPHABET, ...'ÀÂÆÇÉÈÊËÎÏÔŒÙÛÜŸ'],
+    keyboardRows: ['AZERTYUIOP', 'QSDFGHJKLM', 'WXCVBN', 'ÀÂÆÇÉÈÊËÎÏÔŒÙÛÜŸ'],
+    lookAlikes: { Œ: ['O', 'E'], Æ: ['A', 'E'] },
+  },
+  de: {
+    label: 'Deutsch',
+    locale: 'de-DE',
+    alphabet: [...ALPHABET, ...'ÄÖÜẞ'],
+    keyboardRows: ['QWERTZUIOPÜ', 'ASDFGHJKLÖÄ', 'YXCVBNMẞ'],
+    // Plain upper-casing turns ß into SS, which would add a letter to the word.
+    upperCaseOverrides: { ß: 'ẞ' },
+    lookAlikes: { ẞ: ['S'] },
+  },
+  it: {
+    label: 'Italiano',
+    locale: 'it-IT',
+    alphabet: [...ALPHABET, ...'ÀÈÉÌÒÙ'],
+    keyboardRows: [...QWERTY_ROWS, 'ÀÈÉÌÒÙ'],
+  },
+  pt: {
+    label: 'Português',
+    locale: 'pt-PT',
+    alphabet: [...ALPHABET, ...'ÁÀÂÃÇÉÊÍÓÔÕÚ'],
+    keyboardRows: ['QWERTYUIOP', 'ASDFGHJKLÇ', 'ZXCVBNM', 'ÁÀÂÃÉÊÍÓÔÕÚ'],
+  },
+};
+
+// Characters a word may contain that are shown already filled in rather than spelled.
+export const PREFILLED_CHARACTERS = [' ', '-', "'", '’', '.'];
+
+/**
+ * Themes fill in the CSS variables behind the COLORS classes (see
+ * utils/theme.ts). High contrast also recolors the rest of the palette
+ * through overrides in index.html.
+ */
+export const THEMES: Record<ThemeId, ThemeConfig> = {
+  classic: {
+    label: 'Kitty pink',
+    colors: {
+      primary: '#9333ea',
+      secondary: '#ec4899',
+      bg: '#fce7f3',
+      accent: '#e9d5ff',
+      button: 'linear-gradient(to right, #f472b6, #c084fc)',
+      correct: '#4ade80',
+      incorrect: '#f87171',
+    },
+    browserColor: '#f472b6',
+  },
+  highContrast: {
+    label: 'High contrast',
+    colors: {
+      primary: '#000000',
+      secondary: '#000000',
+      bg: '#ffffff',
+      accent: '#ffff00',
+      button: 'linear-gradient(#000000, #000000)',
+      correct: '#006400',
+      incorrect: '#b00000',
+    },
+    browserColor: '#000000',
+  },
+};
+
+export const COLORS: Record<ThemeColor, string> = {
+  primary: 'theme-primary',
+  secondary: 'theme-secondary',
+  bg: 'theme-bg',
+  accent: 'theme-accent',
+  button: 'theme-button',
+  correct: 'theme-correct',
+  incorrect: 'theme-incorrect',
 };
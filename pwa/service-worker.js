@@ -0,0 +1,101 @@
+/* Kitty Speller service worker. Built by pwa/vitePwaPlugin.ts, which fills in the placeholders below. */
+const PRECACHE_VERSION = '__PRECACHE_VERSION__';
+const PRECACHE_URLS = '__PRECACHE_URLS__';
+
+const PRECACHE = `kitty-speller-precache-${PRECACHE_VERSION}`;
+// Audio for imported word lists and CDN assets (Tailwind, fonts, esm.sh) fetched at runtime.
+// Versioned with the precache so an update starts it afresh instead of serving old copies forever.
+const RUNTIME = `kitty-speller-runtime-${PRECACHE_VERSION}`;
+const RUNTIME_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'fonts.cdnfonts.com', 'esm.sh'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(PRECACHE).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith('kitty-speller-') && k !== PRECACHE && k !== RUNTIME).map(k => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  const { type, urls } = event.data || {};
+  if (type === 'SKIP_WAITING') self.skipWaiting();
+  if (type === 'CACHE_URLS' && Array.isArray(urls)) {
+    event.waitUntil(caches.open(RUNTIME).then(cache => Promise.all(urls.map(url =>
+      caches.match(url).then(hit => hit || cache.add(url).catch(() => undefined))
+    ))));
+  }
+});
+
+const storeResponse = async (key, response) => {
+  if (!(response.ok || response.type === 'opaque') || response.status === 206) return;
+  try {
+    const cache = await caches.open(RUNTIME);
+    await cache.put(key, response);
+  } catch (err) {
+    console.warn('Could not cache', key, err);
+  }
+};
+
+/**
+ * Fetches a request and keeps a copy in the runtime cache. Audio elements
+ * ask for byte ranges, and the 206 that comes back holds only part of the
+ * file, so the whole file is fetched for the cache instead.
+ */
+const fetchAndStore = async (event, request) => {
+  const response = await fetch(request);
+  const stored = response.status === 206
+    ? fetch(request.url).then(full => storeResponse(request.url, full))
+    : storeResponse(request, response.clone());
+  event.waitUntil(stored.catch(() => undefined));
+  return response;
+};
+
+const cacheFirst = async (event) => {
+  const hit = await caches.match(event.request, { ignoreSearch: true });
+  return hit || fetchAndStore(event, event.request);
+};
+
+/**
+ * Precached files come from the precache, which each update replaces. Other
+ * same-origin files are answered from the runtime cache straight away and
+ * refreshed in the background, so a file updated at the same URL shows up
+ * on the next load.
+ */
+const staleWhileRevalidate = async (event) => {
+  const { request } = event;
+  const precache = await caches.open(PRECACHE);
+  const precached = await precache.match(request, { ignoreSearch: true });
+  if (precached) return precached;
+  const hit = await caches.match(request, { ignoreSearch: true });
+  const refresh = fetchAndStore(event, request);
+  if (!hit) return refresh;
+  event.waitUntil(refresh.catch(() => undefined));
+  return hit;
+};
+
+const networkFirst = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const hit = await caches.match(request, { ignoreSearch: true }) || await caches.match('./');
+    if (hit) return hit;
+    throw err;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(staleWhileRevalidate(event));
+  } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(event));
+  }
+});
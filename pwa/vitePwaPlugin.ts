@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { Plugin } from 'vite';
+import { WORDS } from '../constants.ts';
+
+// Files copied from public/ that the service worker should also precache.
+const PUBLIC_ASSETS = ['manifest.webmanifest', 'icon.svg'];
+
+/**
+ * Emits the service worker at build time. Its precache list is the built
+ * app shell plus the audio file of every built-in word; audio lives
+ * outside public/, so it is copied into the build here too. The cache
+ * version is a hash of everything precached, so any change to the build or
+ * the word list installs a fresh cache and drops the old one.
+ */
+export const kittySpellerPwa = ({ root }: { root: string }): Plugin => ({
+  name: 'kitty-speller-pwa',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const hash = crypto.createHash('sha256');
+
+    // Read before emitting audio, which would otherwise show up in the bundle too.
+    const shell = Object.keys(bundle).filter(file => !file.endsWith('.map'));
+    shell.forEach(file => {
+      const chunk = bundle[file];
+      hash.update(file).update(chunk.type === 'chunk' ? chunk.code : chunk.source);
+    });
+
+    const audioFiles = [...new Set(WORDS.map(w => w.audio).filter((a): a is string => !!a))].filter(file => {
+      const absolute = path.resolve(root, file);
+      if (!fs.existsSync(absolute)) {
+        this.warn(`Audio file not found, it won't be available offline: ${file}`);
+        return false;
+      }
+      const source = fs.readFileSync(absolute);
+      hash.update(file).update(source);
+      this.emitFile({ type: 'asset', fileName: file, source });
+      return true;
+    });
+
+    PUBLIC_ASSETS.forEach(file => {
+      const absolute = path.resolve(root, 'public', file);
+      if (fs.existsSync(absolute)) hash.update(file).update(fs.readFileSync(absolute));
+    });
+
+    const precache = ['./', ...shell, ...PUBLIC_ASSETS, ...audioFiles];
+    const template = fs.readFileSync(path.resolve(root, 'pwa/service-worker.js'), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template
+        .replace('__PRECACHE_VERSION__', hash.digest('hex').slice(0, 12))
+        .replace("'__PRECACHE_URLS__'", JSON.stringify(precache)),
+    });
+  },
+});
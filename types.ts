@@ -1,7 +1,46 @@
 
 export interface WordData {
   word: string;
-  audio: string;
+  audio?: string;
+  definition?: string;
+  sentence?: string; // example sentence using the word
+  partOfSpeech?: string;
+  origin?: string;
+}
+
+export type WordInfoField = 'definition' | 'sentence' | 'partOfSpeech' | 'origin';
+
+export type LanguageCode = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt';
+
+export interface LanguageConfig {
+  label: string;
+  locale: string; // BCP 47 tag for upper-casing and speech
+  alphabet: string[]; // upper-case letters a word may use
+  keyboardRows: string[]; // on-screen keyboard, top to bottom
+  upperCaseOverrides?: Record<string, string>; // applied before the locale's own upper-casing
+  lookAlikes?: Record<string, string[]>; // extra distractors beyond letters with the same base letter
+}
+
+export interface WordList {
+  id: string;
+  name: string;
+  words: WordData[];
+  isBuiltIn?: boolean;
+  language?: LanguageCode; // English when missing
+  assignment?: AssignmentSettings; // set when the list was opened from a teacher's link
+}
+
+export interface AssignmentSettings {
+  inputMode: InputMode;
+  wordsPerStage: number;
+  tileDifficulty: TileDifficulty;
+  hintsEnabled: boolean;
+}
+
+export interface WordListIssue {
+  severity: 'error' | 'warning';
+  word: string;
+  message: string;
 }
 
 export interface TileItem {
@@ -10,17 +49,163 @@ export interface TileItem {
   isUsed: boolean;
 }
 
+export type InputMode = 'tiles' | 'keyboard';
+
+export type HintType = 'revealLetter' | 'highlightTile' | 'syllables' | 'slowAudio';
+
+export interface LetterError {
+  position: number; // index in the target word
+  chosen: string; // '' when a letter was left out
+  expected: string; // '' when an extra letter was added
+}
+
 export interface RoundStats {
   word: string;
   mistakes: number;
   timeSpent: number;
   skipped: boolean;
+  correct: boolean;
+  inputMode?: InputMode;
+  typed?: string; // the spelling as submitted in keyboard mode
+  hintsUsed?: HintType[]; // one entry per hint taken, in order
+  letterErrors?: LetterError[]; // one entry per wrong tile tap, or per diff error when typed
+  listId?: string; // the list a stage attempt was played from; unset for review, practice and the other modes
+  playedAt: number;
+}
+
+export type WordHistory = Record<string, RoundStats[]>;
+
+export interface ReviewCard {
+  word: string;
+  box: number; // Leitner box, 1 = needs the most practice
+  dueAt: number;
+  lapses: number;
+  mastered: boolean;
+}
+
+export type ReviewDeck = Record<string, ReviewCard>;
+
+export type ChallengeMode = 'timed' | 'lives';
+
+export type SessionType = 'stage' | 'review' | 'practice' | 'daily' | 'bee' | ChallengeMode;
+
+export interface BeePlayer {
+  name: string;
+  turns: RoundStats[];
+  outInRound?: number; // set when knocked out under the elimination rule
+}
+
+export interface BeeGame {
+  players: BeePlayer[]; // in turn order
+  current: number; // index of the player whose turn it is
+  round: number; // 1-based; every remaining player gets one word per round
+  rounds: number;
+  elimination: boolean;
+}
+
+export interface ChallengeResult {
+  mode: ChallengeMode;
+  score: number; // words spelled correctly
+  listName: string;
+  achievedAt: number;
+}
+
+export type DailyMark = 'perfect' | 'helped' | 'missed';
+
+export interface DailyResult {
+  date: string; // YYYY-MM-DD, local time
+  marks: DailyMark[]; // one per word, in play order
+}
+
+export interface DailyProgress {
+  results: DailyResult[]; // oldest first
+  bestStreak: number;
+}
+
+export type SpeechProviderId = 'static' | 'webSpeech' | 'gemini';
+
+export type TileDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface ProfileSettings {
+  activeListId: string;
+  inputMode: InputMode;
+  speechOrder: SpeechProviderId[]; // providers to try, first to last
+  tileDifficulty: TileDifficulty;
+  hintsEnabled: boolean;
+  wordsPerStage: number;
+  theme: ThemeId;
+  reducedMotion: boolean; // also on whenever the device asks for reduced motion
+  dyslexiaFont: boolean;
+}
+
+export type ThemeId = 'classic' | 'highContrast';
+
+export type ThemeColor = 'primary' | 'secondary' | 'bg' | 'accent' | 'button' | 'correct' | 'incorrect';
+
+export interface ThemeConfig {
+  label: string;
+  colors: Record<ThemeColor, string>; // CSS values behind the COLORS classes
+  browserColor: string; // theme-color for the browser's toolbar
+}
+
+export type OutfitSlot = 'color' | 'hat' | 'accessory';
+
+export interface OutfitItem {
+  id: string;
+  slot: OutfitSlot;
+  label: string;
+  price: number; // in coins
+  fur?: string; // color items only
+}
+
+export type Outfit = Partial<Record<OutfitSlot, string>>; // equipped item id per slot
+
+/** Things that happen in play; achievements are checked against each one. */
+export type GameEvent =
+  | { type: 'round'; stat: RoundStats }
+  | { type: 'stage'; previousStars: number; stars: number; listStars: number[] } // listStars: every stage of the list, this one included
+  | { type: 'review' }
+  | { type: 'daily'; streak: number }
+  | { type: 'challenge'; mode: ChallengeMode; score: number };
+
+export interface Rewards {
+  coins: number;
+  achievements: Record<string, number>; // achievement id -> when it was earned
+  newlyEarned: string[]; // achievement ids not shown to the player yet
+  owned: string[]; // outfit item ids
+  outfit: Outfit;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+  settings: ProfileSettings;
+  progress: Record<string, StageProgress[]>; // keyed by word list id
+  history: WordHistory;
+  reviewDeck: ReviewDeck;
+  challengeBests: Record<ChallengeMode, ChallengeResult[]>; // best first
+  daily: DailyProgress;
+  rewards: Rewards;
+}
+
+export interface SaveData {
+  version: number;
+  activeProfileId: string;
+  profiles: Profile[];
+}
+
+export interface DiffPart {
+  kind: 'match' | 'wrong' | 'extra' | 'missing';
+  typed?: string;
+  expected?: string;
 }
 
 export interface StageProgress {
   stars: number; // 0 to 3
   isUnlocked: boolean;
   correctCount: number;
+  words?: string[]; // the stage's words when saved, so progress follows them if stages are rebuilt
 }
 
 export enum GameState {
@@ -28,5 +213,16 @@ export enum GameState {
   STAGE_SELECT = 'STAGE_SELECT',
   PLAYING = 'PLAYING',
   CELEBRATING = 'CELEBRATING',
-  GAME_OVER = 'GAME_OVER'
+  GAME_OVER = 'GAME_OVER',
+  WORD_LISTS = 'WORD_LISTS',
+  ATTEMPT_RESULT = 'ATTEMPT_RESULT',
+  SETTINGS = 'SETTINGS',
+  CHALLENGE_OVER = 'CHALLENGE_OVER',
+  PARENT_GATE = 'PARENT_GATE',
+  DASHBOARD = 'DASHBOARD',
+  PRACTICE_REPORT = 'PRACTICE_REPORT',
+  DAILY_OVER = 'DAILY_OVER',
+  BEE_HANDOFF = 'BEE_HANDOFF',
+  BEE_OVER = 'BEE_OVER',
+  SHOP = 'SHOP'
 }
@@ -0,0 +1,119 @@
+import { GameEvent, Profile, RoundStats } from '../types.ts';
+import { COINS_PER_STAR } from '../constants.ts';
+import { flattenHistory } from './analytics.ts';
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  coins: number;
+  /** Checked after each event, against the profile with that event already applied. */
+  isEarned: (profile: Profile, event: GameEvent) => boolean;
+}
+
+const isClean = (stat: RoundStats) => stat.correct && stat.mistakes === 0 && !stat.hintsUsed?.length;
+
+const countWords = (profile: Profile, test: (stat: RoundStats) => boolean) =>
+  flattenHistory(profile.history).filter(test).length;
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-word',
+    title: 'First Word',
+    description: 'Spell a word correctly.',
+    coins: 10,
+    isEarned: (_, event) => event.type === 'round' && event.stat.correct,
+  },
+  {
+    id: 'clean-10',
+    title: 'Purr-fect Ten',
+    description: 'Spell 10 words with no mistakes and no hints.',
+    coins: 25,
+    isEarned: (profile, event) => event.type === 'round' && isClean(event.stat) && countWords(profile, isClean) >= 10,
+  },
+  {
+    id: 'clean-50',
+    title: 'Sharp Claws',
+    description: 'Spell 50 words with no mistakes and no hints.',
+    coins: 75,
+    isEarned: (profile, event) => event.type === 'round' && isClean(event.stat) && countWords(profile, isClean) >= 50,
+  },
+  {
+    id: 'words-100',
+    title: 'Hundred Words',
+    description: 'Spell 100 words correctly.',
+    coins: 50,
+    isEarned: (profile, event) => event.type === 'round' && event.stat.correct && countWords(profile, s => s.correct) >= 100,
+  },
+  {
+    id: 'three-stars',
+    title: 'Top Cat',
+    description: 'Get 3 stars on a stage.',
+    coins: 20,
+    isEarned: (_, event) => event.type === 'stage' && event.stars === 3,
+  },
+  {
+    id: 'all-stars',
+    title: 'Star Collector',
+    description: 'Get 3 stars on every stage of a list.',
+    coins: 100,
+    isEarned: (_, event) => event.type === 'stage' && event.listStars.length > 0 && event.listStars.every(s => s === 3),
+  },
+  {
+    id: 'review',
+    title: 'Back for More',
+    description: 'Finish a review session.',
+    coins: 15,
+    isEarned: (_, event) => event.type === 'review',
+  },
+  {
+    id: 'streak-3',
+    title: 'On a Roll',
+    description: 'Play the daily challenge 3 days in a row.',
+    coins: 20,
+    isEarned: (_, event) => event.type === 'daily' && event.streak >= 3,
+  },
+  {
+    id: 'streak-7',
+    title: 'Week of Words',
+    description: 'Play the daily challenge 7 days in a row.',
+    coins: 60,
+    isEarned: (_, event) => event.type === 'daily' && event.streak >= 7,
+  },
+  {
+    id: 'timed-10',
+    title: 'Quick Paws',
+    description: 'Spell 10 words in Beat the Clock.',
+    coins: 30,
+    isEarned: (_, event) => event.type === 'challenge' && event.mode === 'timed' && event.score >= 10,
+  },
+  {
+    id: 'lives-10',
+    title: 'Nine Lives',
+    description: 'Spell 10 words in Three Lives.',
+    coins: 30,
+    isEarned: (_, event) => event.type === 'challenge' && event.mode === 'lives' && event.score >= 10,
+  },
+];
+
+export const findAchievement = (id: string) => ACHIEVEMENTS.find(a => a.id === id);
+
+/**
+ * Pays out for an event: coins for new stars, and any achievements the
+ * event completes, which are also queued in newlyEarned for the player to see.
+ */
+export const applyGameEvent = (profile: Profile, event: GameEvent, now: number): Profile => {
+  const { rewards } = profile;
+  const starCoins = event.type === 'stage' ? Math.max(0, event.stars - event.previousStars) * COINS_PER_STAR : 0;
+  const earned = ACHIEVEMENTS.filter(a => !(a.id in rewards.achievements) && a.isEarned(profile, event));
+  if (starCoins === 0 && earned.length === 0) return profile;
+  return {
+    ...profile,
+    rewards: {
+      ...rewards,
+      coins: rewards.coins + starCoins + earned.reduce((sum, a) => sum + a.coins, 0),
+      achievements: { ...rewards.achievements, ...Object.fromEntries(earned.map(a => [a.id, now])) },
+      newlyEarned: [...rewards.newlyEarned, ...earned.map(a => a.id)],
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import { RoundStats, WordHistory } from '../types.ts';
+
+export interface AttemptSummary {
+  attempts: number;
+  accuracy: number; // 0 to 1, share of attempts spelled correctly
+  avgMistakes: number;
+  avgTime: number; // seconds
+  skipRate: number; // 0 to 1
+}
+
+export interface WordStats extends AttemptSummary {
+  word: string;
+  lastPlayedAt: number;
+}
+
+export interface DayStats extends AttemptSummary {
+  date: string; // YYYY-MM-DD, local time
+}
+
+const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+export const summarizeAttempts = (stats: RoundStats[]): AttemptSummary => ({
+  attempts: stats.length,
+  accuracy: average(stats.map(s => (s.correct ? 1 : 0))),
+  avgMistakes: average(stats.map(s => s.mistakes)),
+  avgTime: average(stats.map(s => s.timeSpent)),
+  skipRate: average(stats.map(s => (s.skipped ? 1 : 0))),
+});
+
+/** Every saved attempt, oldest first. */
+export const flattenHistory = (history: WordHistory): RoundStats[] =>
+  Object.values(history).flat().sort((a, b) => a.playedAt - b.playedAt);
+
+export const toDateKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const statsByWord = (history: WordHistory): WordStats[] =>
+  Object.entries(history)
+    .filter(([, attempts]) => attempts.length > 0)
+    .map(([word, attempts]) => ({
+      word,
+      lastPlayedAt: Math.max(...attempts.map(a => a.playedAt)),
+      ...summarizeAttempts(attempts),
+    }))
+    .sort((a, b) => a.word.localeCompare(b.word));
+
+/** One entry per day with at least one attempt, oldest first. */
+export const statsByDate = (history: WordHistory): DayStats[] => {
+  const days = new Map<string, RoundStats[]>();
+  flattenHistory(history).forEach(stat => {
+    const key = toDateKey(stat.playedAt);
+    days.set(key, [...(days.get(key) ?? []), stat]);
+  });
+  return [...days.entries()].map(([date, stats]) => ({ date, ...summarizeAttempts(stats) }));
+};
+
+/**
+ * Words the child struggles with most: lowest accuracy first, then most
+ * mistakes. Words tried fewer than minAttempts times are left out so one
+ * unlucky try doesn't top the list.
+ */
+export const hardestWords = (stats: WordStats[], limit = 10, minAttempts = 2): WordStats[] =>
+  stats
+    .filter(s => s.attempts >= minAttempts && (s.accuracy < 1 || s.avgMistakes > 0))
+    .sort((a, b) => a.accuracy - b.accuracy || b.avgMistakes - a.avgMistakes || b.avgTime - a.avgTime)
+    .slice(0, limit);
+
+const csvCell = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number | boolean | undefined)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const percent = (share: number) => Math.round(share * 100);
+const oneDecimal = (n: number) => Math.round(n * 10) / 10;
+
+export const wordStatsToCsv = (stats: WordStats[]) =>
+  toCsv(
+    ['word', 'attempts', 'accuracy_percent', 'avg_mistakes', 'avg_seconds', 'skip_percent', 'last_played'],
+    stats.map(s => [s.word, s.attempts, percent(s.accuracy), oneDecimal(s.avgMistakes), oneDecimal(s.avgTime), percent(s.skipRate), new Date(s.lastPlayedAt).toISOString()]),
+  );
+
+export const attemptsToCsv = (history: WordHistory) =>
+  toCsv(
+    ['played_at', 'word', 'correct', 'skipped', 'mistakes', 'seconds', 'input_mode', 'typed', 'hints'],
+    flattenHistory(history).map(s => [new Date(s.playedAt).toISOString(), s.word, s.correct, s.skipped, s.mistakes, s.timeSpent, s.inputMode, s.typed, (s.hintsUsed ?? []).join(' ')]),
+  );
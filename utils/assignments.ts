@@ -0,0 +1,105 @@
+import { AssignmentSettings, Profile, TileDifficulty, WordData, WordList } from '../types.ts';
+import { TILE_DIFFICULTY_CONFIG, WORDS_PER_STAGE } from '../constants.ts';
+import { encodeShareCode, decodeShareCode } from './shareCodes.ts';
+import { validateWords } from './wordLists.ts';
+import { hashString } from './random.ts';
+import { isLanguageCode, listLanguage, toWordCase } from './languages.ts';
+import { isRecord } from './helpers.ts';
+
+const ASSIGNMENT_PARAM = 'assignment';
+const FORMAT_VERSION = 1;
+const MAX_WORDS_PER_STAGE = 50;
+
+export const DEFAULT_ASSIGNMENT_SETTINGS: AssignmentSettings = {
+  inputMode: 'tiles',
+  wordsPerStage: WORDS_PER_STAGE,
+  tileDifficulty: 'medium',
+  hintsEnabled: true,
+};
+
+export const sanitizeAssignmentSettings = (raw: unknown): AssignmentSettings => {
+  const s = isRecord(raw) ? raw : {};
+  const size = Math.round(Number(s.wordsPerStage));
+  return {
+    inputMode: s.inputMode === 'keyboard' ? 'keyboard' : 'tiles',
+    wordsPerStage: size >= 1 ? Math.min(size, MAX_WORDS_PER_STAGE) : DEFAULT_ASSIGNMENT_SETTINGS.wordsPerStage,
+    tileDifficulty: typeof s.tileDifficulty === 'string' && s.tileDifficulty in TILE_DIFFICULTY_CONFIG ? s.tileDifficulty as TileDifficulty : DEFAULT_ASSIGNMENT_SETTINGS.tileDifficulty,
+    hintsEnabled: typeof s.hintsEnabled === 'boolean' ? s.hintsEnabled : DEFAULT_ASSIGNMENT_SETTINGS.hintsEnabled,
+  };
+};
+
+/** A link that opens the app straight into this list with the given settings. */
+export const createAssignmentLink = async (list: WordList, settings: AssignmentSettings, baseUrl: string): Promise<string> => {
+  const code = await encodeShareCode({ v: FORMAT_VERSION, name: list.name, language: listLanguage(list), words: list.words, settings });
+  return `${baseUrl}#${ASSIGNMENT_PARAM}=${code}`;
+};
+
+/**
+ * Reads an assignment from a location hash. Returns null when the hash has
+ * none and throws when it has one that can't be read. The list id comes
+ * from the code, so opening the same link twice doesn't add a second copy.
+ */
+export const readAssignmentFromHash = async (hash: string): Promise<WordList | null> => {
+  const code = new URLSearchParams(hash.replace(/^#/, '')).get(ASSIGNMENT_PARAM);
+  if (!code) return null;
+  const payload = await decodeShareCode(code);
+  if (!isRecord(payload) || payload.v !== FORMAT_VERSION || !Array.isArray(payload.words)) {
+    throw new Error('Not an assignment this version of the app understands');
+  }
+  // Links made before lists had a language are English.
+  const language = isLanguageCode(payload.language) ? payload.language : 'en';
+  const { words } = validateWords(payload.words.map((e: unknown) => (isRecord(e) ? e : {})), language);
+  if (words.length === 0) throw new Error('The assignment has no words');
+  return {
+    id: `assignment-${hashString(code).toString(36)}`,
+    name: typeof payload.name === 'string' && payload.name.trim() ? payload.name.trim() : 'Assignment',
+    language,
+    words,
+    assignment: sanitizeAssignmentSettings(payload.settings),
+  };
+};
+
+export interface WordResult {
+  word: string;
+  correct: boolean;
+  mistakes: number;
+  hints: number;
+}
+
+export interface AssignmentResult {
+  assignment: string; // assignment name
+  player: string;
+  finishedAt: number;
+  stars: number[]; // per stage
+  words: (WordResult | null)[]; // null for words not played yet
+}
+
+/**
+ * Each word's latest attempt and the stars per stage, packed into a code
+ * the student sends back. Only attempts made in this assignment's own
+ * stages count, not the same word met in another list, review or practice.
+ */
+export const createResultCode = (list: WordList, profile: Profile, stageStars: number[]): Promise<string> => {
+  const latest = (w: WordData) => profile.history[toWordCase(w.word, listLanguage(list))]?.filter(stat => stat.listId === list.id).slice(-1)[0];
+  const result: AssignmentResult = {
+    assignment: list.name,
+    player: profile.name,
+    finishedAt: Date.now(),
+    stars: stageStars,
+    words: list.words.map(w => {
+      const stat = latest(w);
+      return stat ? { word: stat.word, correct: stat.correct, mistakes: stat.mistakes, hints: stat.hintsUsed?.length ?? 0 } : null;
+    }),
+  };
+  return encodeShareCode({ v: FORMAT_VERSION, result });
+};
+
+const isAssignmentResult = (value: unknown): value is AssignmentResult =>
+  isRecord(value) && typeof value.player === 'string' && Array.isArray(value.words) && Array.isArray(value.stars);
+
+export const readResultCode = async (code: string): Promise<AssignmentResult> => {
+  const payload = await decodeShareCode(code);
+  const result = isRecord(payload) && payload.v === FORMAT_VERSION ? payload.result : undefined;
+  if (!isAssignmentResult(result)) throw new Error('Not a result code');
+  return result;
+};
@@ -0,0 +1,91 @@
+import { BeeGame, BeePlayer, RoundStats } from '../types.ts';
+import { BEE_MIN_PLAYERS, BEE_MAX_PLAYERS } from '../constants.ts';
+
+/** Returns a message for the setup screen, or null if the names can start a bee. */
+export const validateBeeNames = (names: string[]): string | null => {
+  const trimmed = names.map(n => n.trim()).filter(Boolean);
+  if (trimmed.length < BEE_MIN_PLAYERS) return `Add at least ${BEE_MIN_PLAYERS} players.`;
+  if (trimmed.length > BEE_MAX_PLAYERS) return `A bee can have at most ${BEE_MAX_PLAYERS} players.`;
+  const seen = new Set(trimmed.map(n => n.toLowerCase()));
+  if (seen.size !== trimmed.length) return 'Each player needs a different name.';
+  return null;
+};
+
+export const createBeeGame = (names: string[], rounds: number, elimination: boolean): BeeGame => ({
+  players: names.map(n => n.trim()).filter(Boolean).map(name => ({ name, turns: [] })),
+  current: 0,
+  round: 1,
+  rounds,
+  elimination,
+});
+
+export const isStillIn = (player: BeePlayer) => player.outInRound === undefined;
+
+/**
+ * Records the current player's turn and passes to the next player still in.
+ * Under the elimination rule a missed word knocks the speller out.
+ */
+export const recordBeeTurn = (game: BeeGame, stat: RoundStats): BeeGame => {
+  const players = game.players.map((p, i) => {
+    if (i !== game.current) return p;
+    const knockedOut = game.elimination && !stat.correct;
+    return { ...p, turns: [...p.turns, stat], outInRound: knockedOut ? game.round : p.outInRound };
+  });
+
+  let next = game.current;
+  let round = game.round;
+  for (let step = 1; step <= players.length; step++) {
+    const idx = (game.current + step) % players.length;
+    if (!isStillIn(players[idx])) continue;
+    next = idx;
+    if (idx <= game.current) round++;
+    break;
+  }
+  return { ...game, players, current: next, round };
+};
+
+export const isBeeOver = (game: BeeGame): boolean => {
+  const remaining = game.players.filter(isStillIn).length;
+  if (remaining === 0 || (game.elimination && remaining === 1)) return true;
+  return game.round > game.rounds;
+};
+
+/**
+ * Points for one turn: 10 for the word, minus 2 per mistake and up to 3 for
+ * taking a while, but a correct word always earns at least 2. Misses earn nothing.
+ */
+export const beeTurnPoints = (stat: RoundStats): number => {
+  if (!stat.correct) return 0;
+  const slowPenalty = Math.min(3, Math.floor(stat.timeSpent / 10));
+  return Math.max(2, 10 - stat.mistakes * 2 - slowPenalty);
+};
+
+export interface BeeStanding {
+  name: string;
+  points: number;
+  correct: number;
+  mistakes: number;
+  totalTime: number;
+  outInRound?: number;
+  place: number; // 1-based; tied players share a place
+}
+
+/** Players still in rank above those knocked out, later knockouts above earlier ones, then by points and time. */
+export const beeStandings = (game: BeeGame): BeeStanding[] => {
+  const rows = game.players.map(p => ({
+    name: p.name,
+    points: p.turns.reduce((sum, t) => sum + beeTurnPoints(t), 0),
+    correct: p.turns.filter(t => t.correct).length,
+    mistakes: p.turns.reduce((sum, t) => sum + t.mistakes, 0),
+    totalTime: p.turns.reduce((sum, t) => sum + t.timeSpent, 0),
+    outInRound: p.outInRound,
+  }));
+  const survival = (r: { outInRound?: number }) => r.outInRound ?? Infinity;
+  const compare = (a: typeof rows[number], b: typeof rows[number]) =>
+    survival(b) - survival(a) || b.points - a.points || a.totalTime - b.totalTime;
+  const sorted = [...rows].sort(compare);
+  return sorted.map((row, i) => ({
+    ...row,
+    place: i > 0 && compare(sorted[i - 1], row) === 0 ? sorted.findIndex(r => compare(r, row) === 0) + 1 : i + 1,
+  }));
+};
@@ -0,0 +1,16 @@
+import { ChallengeResult } from '../types.ts';
+import { MAX_PERSONAL_BESTS } from '../constants.ts';
+
+/**
+ * Inserts a finished run into a best-first table. Returns the new table and
+ * the run's 0-based rank, or -1 if it didn't make the table. Ties go to the
+ * earlier run.
+ */
+export const recordPersonalBest = (bests: ChallengeResult[], result: ChallengeResult): { bests: ChallengeResult[]; rank: number } => {
+  if (result.score <= 0) return { bests, rank: -1 };
+  const rank = bests.findIndex(b => result.score > b.score);
+  const insertAt = rank < 0 ? bests.length : rank;
+  if (insertAt >= MAX_PERSONAL_BESTS) return { bests, rank: -1 };
+  const next = [...bests.slice(0, insertAt), result, ...bests.slice(insertAt)].slice(0, MAX_PERSONAL_BESTS);
+  return { bests: next, rank: insertAt };
+};
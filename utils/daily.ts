@@ -0,0 +1,72 @@
+import { DailyMark, DailyProgress, DailyResult, RoundStats, WordData } from '../types.ts';
+import { DAILY_WORD_COUNT } from '../constants.ts';
+import { hashString, shuffle, createSeededRandom } from './random.ts';
+import { toDateKey } from './analytics.ts';
+
+// Enough for a year of streaks without growing the save forever.
+const MAX_DAILY_RESULTS = 400;
+
+const MARK_EMOJI: Record<DailyMark, string> = { perfect: '🟩', helped: '🟨', missed: '🟥' };
+
+/** The seed for a day; the same on every device. */
+export const dailySeed = (date: string) => hashString(`daily:${date}`);
+
+export const getDailyWords = (date: string, pool: WordData[]): WordData[] =>
+  shuffle(createSeededRandom(dailySeed(date)), pool).slice(0, DAILY_WORD_COUNT);
+
+export const markForRound = (stat: RoundStats): DailyMark => {
+  if (!stat.correct) return 'missed';
+  return stat.mistakes === 0 && !stat.hintsUsed?.length ? 'perfect' : 'helped';
+};
+
+const previousDay = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return toDateKey(new Date(y, m - 1, d - 1).getTime());
+};
+
+/**
+ * Consecutive days played, ending today. A streak isn't broken until a
+ * whole day is missed, so it still counts from yesterday if today is unplayed.
+ */
+export const currentStreak = (results: DailyResult[], today: string): number => {
+  const played = new Set(results.map(r => r.date));
+  let day = played.has(today) ? today : previousDay(today);
+  let streak = 0;
+  while (played.has(day)) {
+    streak++;
+    day = previousDay(day);
+  }
+  return streak;
+};
+
+export const findDailyResult = (progress: DailyProgress, date: string) => progress.results.find(r => r.date === date);
+
+/**
+ * Records the day as played the moment it starts, every word a miss until
+ * it is spelled, so quitting halfway and starting again can't wipe out
+ * misses. Only the first start of a day counts.
+ */
+export const startDailyResult = (progress: DailyProgress, date: string, wordCount: number): DailyProgress => {
+  if (findDailyResult(progress, date)) return progress;
+  const result: DailyResult = { date, marks: Array.from({ length: wordCount }, () => 'missed') };
+  const results = [...progress.results, result].slice(-MAX_DAILY_RESULTS);
+  return { results, bestStreak: Math.max(progress.bestStreak, currentStreak(results, date)) };
+};
+
+/** Saves one word's mark in the day's result as soon as it is played. */
+export const recordDailyMark = (progress: DailyProgress, date: string, index: number, mark: DailyMark): DailyProgress => ({
+  ...progress,
+  results: progress.results.map(r => (r.date === date && index < r.marks.length
+    ? { ...r, marks: r.marks.map((m, i) => (i === index ? mark : m)) }
+    : r)),
+});
+
+/** A spoiler-free summary to paste into a chat, Wordle style. */
+export const formatDailyShare = (result: DailyResult, streak: number): string => {
+  const correct = result.marks.filter(m => m !== 'missed').length;
+  return [
+    `Kitty Speller Daily ${result.date} ${correct}/${result.marks.length}`,
+    result.marks.map(m => MARK_EMOJI[m]).join(''),
+    `🔥 ${streak} day streak`,
+  ].join('\n');
+};
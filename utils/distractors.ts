@@ -0,0 +1,108 @@
+import { LanguageCode, TileDifficulty } from '../types.ts';
+import { DEFAULT_LANGUAGE, TILE_DIFFICULTY_CONFIG } from '../constants.ts';
+import { RandomSource, randomInt } from './random.ts';
+import { accentLookAlikes, getLanguage, isLetterOf } from './languages.ts';
+
+export interface Distractor {
+  letter: string;
+  weight: number; // higher = more likely to fool a speller
+  reason: string;
+}
+
+/** Letters that sound alike or are commonly swapped for one another. */
+const LETTER_CONFUSIONS: Record<string, string[]> = {
+  A: ['E', 'U'], B: ['P', 'D'], C: ['K', 'S'], D: ['T', 'B'], E: ['I', 'A'],
+  F: ['V', 'P'], G: ['J'], I: ['E', 'Y'], J: ['G'], K: ['C'], M: ['N'],
+  N: ['M'], O: ['U', 'A'], P: ['B'], Q: ['K'], S: ['C', 'Z'], T: ['D'],
+  U: ['O'], V: ['F'], W: ['U'], X: ['K', 'S'], Y: ['I', 'E'], Z: ['S'],
+};
+
+/**
+ * English spelling patterns and the letters a speller is likely to reach for
+ * instead. A letter of "$1" means the first captured group (used for
+ * doubled letters, where the distractor is one more copy).
+ */
+const PATTERN_DISTRACTORS: { pattern: RegExp; letters: string[]; weight: number; reason: string }[] = [
+  { pattern: /([B-DF-HJ-NP-TV-Z])\1/, letters: ['$1'], weight: 4, reason: 'doubled consonant' },
+  { pattern: /IE|EI/, letters: ['I', 'E'], weight: 4, reason: 'ie/ei' },
+  { pattern: /C[EIY]/, letters: ['S'], weight: 4, reason: 'soft c' },
+  { pattern: /G[EIY]/, letters: ['J'], weight: 3, reason: 'soft g' },
+  { pattern: /PH/, letters: ['F'], weight: 4, reason: 'ph sounds like f' },
+  { pattern: /CK|QU|X/, letters: ['K'], weight: 3, reason: 'k sound' },
+  { pattern: /TION|SION|CIAN/, letters: ['S', 'H'], weight: 4, reason: 'shun ending' },
+  { pattern: /ABLE$|IBLE$/, letters: ['A', 'I'], weight: 4, reason: '-able/-ible' },
+  { pattern: /ANCE|ENCE|ANT|ENT/, letters: ['A', 'E'], weight: 3, reason: '-ance/-ence' },
+  { pattern: /OUS$/, letters: ['S', 'U'], weight: 2, reason: '-ous ending' },
+  { pattern: /EIGH/, letters: ['A', 'Y'], weight: 3, reason: 'silent gh' },
+  { pattern: /IGH/, letters: ['Y', 'E'], weight: 3, reason: 'silent gh' },
+  { pattern: /[AEIOU]R/, letters: ['E', 'U', 'O'], weight: 2, reason: 'r-controlled vowel' },
+  { pattern: /([LRSTMNPCF])[AEIOUY]/, letters: ['$1'], weight: 2, reason: 'single consonant that could be doubled' },
+];
+
+/**
+ * Every letter that could plausibly fool someone spelling this word,
+ * strongest first. May include letters already in the word: an extra S
+ * for SCISSORS is exactly the kind of tile that makes spellers hesitate.
+ * Only letters of the word's language are suggested.
+ */
+export const findConfusableLetters = (word: string, language: LanguageCode = DEFAULT_LANGUAGE): Distractor[] => {
+  const upper = word.toUpperCase();
+  const byLetter = new Map<string, Distractor>();
+  const add = (letter: string, weight: number, reason: string) => {
+    if (!isLetterOf(letter, language)) return;
+    const existing = byLetter.get(letter);
+    if (!existing || existing.weight < weight) byLetter.set(letter, { letter, weight, reason });
+  };
+
+  if (language === 'en') {
+    PATTERN_DISTRACTORS.forEach(({ pattern, letters, weight, reason }) => {
+      const match = upper.match(pattern);
+      if (!match) return;
+      letters.forEach(l => add(l === '$1' ? match[1] : l, weight, reason));
+    });
+  }
+
+  new Set(upper.split('')).forEach(ch => {
+    accentLookAlikes(ch, language).forEach(l => add(l, 4, `looks like ${ch}`));
+    (LETTER_CONFUSIONS[ch] ?? []).forEach(l => add(l, 1, `sounds like ${ch}`));
+  });
+
+  return [...byLetter.values()].sort((a, b) => b.weight - a.weight || a.letter.localeCompare(b.letter));
+};
+
+/** Weighted sampling without replacement. */
+const pickWeighted = (rng: RandomSource, candidates: Distractor[], count: number): string[] => {
+  const pool = [...candidates];
+  const picked: string[] = [];
+  while (picked.length < count && pool.length > 0) {
+    const total = pool.reduce((sum, d) => sum + d.weight, 0);
+    let roll = rng() * total;
+    const idx = pool.findIndex(d => (roll -= d.weight) < 0);
+    picked.push(pool.splice(idx < 0 ? pool.length - 1 : idx, 1)[0].letter);
+  }
+  return picked;
+};
+
+/**
+ * Picks the extra tiles for a word. Easy adds a few letters that are easy
+ * to rule out; harder levels add more tiles and a growing share of
+ * confusable ones.
+ */
+export const pickDistractors = (word: string, difficulty: TileDifficulty, rng: RandomSource, language: LanguageCode = DEFAULT_LANGUAGE): string[] => {
+  const { extraTiles, trickyShare } = TILE_DIFFICULTY_CONFIG[difficulty];
+  const { alphabet } = getLanguage(language);
+  const confusable = findConfusableLetters(word, language);
+  const tricky = pickWeighted(rng, confusable, Math.round(extraTiles * trickyShare));
+
+  const wordSet = new Set(word.toUpperCase().split(''));
+  const confusableSet = new Set(confusable.map(d => d.letter));
+  // Filler letters should be obviously wrong, so skip anything confusable too.
+  let fillerPool = alphabet.filter(l => !wordSet.has(l) && !confusableSet.has(l));
+  if (fillerPool.length === 0) fillerPool = alphabet.filter(l => !wordSet.has(l));
+
+  const extras = [...tricky];
+  while (extras.length < extraTiles && fillerPool.length > 0) {
+    extras.push(fillerPool[randomInt(rng, fillerPool.length)]);
+  }
+  return extras;
+};
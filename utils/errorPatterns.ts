@@ -0,0 +1,141 @@
+import { LetterError, RoundStats, WordData, WordHistory } from '../types.ts';
+
+export interface ErrorPattern {
+  id: string;
+  label: string;
+  tip: string;
+  // Marks the letters of a word that belong to the pattern.
+  regex: RegExp;
+  // Extra ways a wrong letter counts for this pattern, beyond landing inside it.
+  alsoMatches?: (word: string, error: LetterError) => boolean;
+  // Only counts errors that no more specific pattern explains.
+  fallback?: boolean;
+}
+
+const isVowel = (ch: string | undefined) => !!ch && 'AEIOU'.includes(ch);
+
+/** Known trouble spots, roughly from most to least specific. */
+export const ERROR_PATTERNS: ErrorPattern[] = [
+  {
+    id: 'doubleLetters',
+    label: 'Double letters',
+    tip: 'Listen for the short vowel before the doubled letter: EMBA-RR-A-SS-ING.',
+    regex: /([B-DF-HJ-NP-TV-Z])\1/g,
+    // Doubling a letter that should be single is the same confusion.
+    alsoMatches: (word, e) => !e.expected && (e.chosen === word[e.position - 1] || e.chosen === word[e.position]),
+  },
+  {
+    id: 'ieEi',
+    label: 'ie or ei',
+    tip: 'I before E, except after C (ACHIEVE, RECEIVE).',
+    regex: /IE|EI/g,
+  },
+  {
+    id: 'silentLetters',
+    label: 'Silent letters',
+    tip: "Say the word the funny way, sounding every letter: TONG-U-E, FREI-G-H-T.",
+    regex: /^K(?=N)|W(?=R)|GH|(?<=G)UE$|(?<=M)B$|G(?=N)|^P(?=S)|(?<=R)H|(?<=S)C(?=[IE])|(?<=[^AEIOU])E$/g,
+  },
+  {
+    id: 'softCG',
+    label: 'Soft c and g',
+    tip: 'C and G sound like S and J before E, I or Y.',
+    regex: /[CG](?=[EIY])/g,
+  },
+  {
+    id: 'soundsLikeF',
+    label: 'ph for f',
+    tip: 'Some words use PH for the F sound (PARAGRAPH).',
+    regex: /PH/g,
+  },
+  {
+    id: 'endings',
+    label: 'Word endings',
+    tip: 'Learn the endings as chunks: -TION, -SION, -ABLE, -IBLE, -ANCE, -ENCE, -OUS.',
+    regex: /(TION|SION|CIAN|ABLE|IBLE|ANCE|ENCE|ANT|ENT|OUS)$/g,
+  },
+  {
+    id: 'vowelSounds',
+    label: 'Vowel sounds',
+    tip: 'Unstressed vowels all sound like "uh". Stretch the word out to hear which one it is.',
+    regex: /[AEIOUY]/g,
+    alsoMatches: (_word, e) => isVowel(e.chosen) && isVowel(e.expected),
+    fallback: true,
+  },
+];
+
+const patternPositions = (word: string, regex: RegExp): Set<number> => {
+  const positions = new Set<number>();
+  for (const match of word.matchAll(regex)) {
+    for (let i = 0; i < match[0].length; i++) positions.add(match.index! + i);
+  }
+  return positions;
+};
+
+const matchesPattern = (pattern: ErrorPattern, word: string, error: LetterError) =>
+  patternPositions(word, pattern.regex).has(error.position) || !!pattern.alsoMatches?.(word, error);
+
+/** The patterns a single wrong letter falls under; empty if none fit. */
+export const classifyError = (word: string, error: LetterError): ErrorPattern[] => {
+  const upper = word.toUpperCase();
+  const specific = ERROR_PATTERNS.filter(p => !p.fallback && matchesPattern(p, upper, error));
+  return specific.length > 0 ? specific : ERROR_PATTERNS.filter(p => p.fallback && matchesPattern(p, upper, error));
+};
+
+export const wordHasPattern = (word: string, pattern: ErrorPattern) => patternPositions(word.toUpperCase(), pattern.regex).size > 0;
+
+export interface PatternReport {
+  pattern: ErrorPattern;
+  errorCount: number;
+  words: string[]; // words missed this way, most missed first
+}
+
+export interface ErrorReport {
+  patterns: PatternReport[]; // weakest first, only patterns with errors
+  unclassified: number;
+  totalErrors: number;
+}
+
+/** Sorts every recorded wrong letter into spelling patterns. */
+export const analyzeErrors = (history: WordHistory): ErrorReport => {
+  const counts = new Map<string, { errorCount: number; words: Map<string, number> }>();
+  let unclassified = 0;
+  let totalErrors = 0;
+
+  Object.values(history).flat().forEach((stat: RoundStats) => {
+    (stat.letterErrors ?? []).forEach(error => {
+      totalErrors++;
+      const matched = classifyError(stat.word, error);
+      if (matched.length === 0) unclassified++;
+      matched.forEach(p => {
+        const entry = counts.get(p.id) ?? { errorCount: 0, words: new Map() };
+        entry.errorCount++;
+        entry.words.set(stat.word, (entry.words.get(stat.word) ?? 0) + 1);
+        counts.set(p.id, entry);
+      });
+    });
+  });
+
+  const patterns = ERROR_PATTERNS
+    .filter(p => counts.has(p.id))
+    .map(p => {
+      const { errorCount, words } = counts.get(p.id)!;
+      return { pattern: p, errorCount, words: [...words.entries()].sort((a, b) => b[1] - a[1]).map(([w]) => w) };
+    })
+    .sort((a, b) => b.errorCount - a.errorCount);
+
+  return { patterns, unclassified, totalErrors };
+};
+
+/**
+ * Words for a practice stage on one pattern: the ones the child already
+ * missed that way come first, then other words from the pool that share
+ * the pattern.
+ */
+export const buildPracticeWords = (report: PatternReport, pool: WordData[], limit: number): WordData[] => {
+  const byWord = new Map(pool.map(w => [w.word.toUpperCase(), w]));
+  const missed = report.words.map(w => byWord.get(w) ?? { word: w });
+  const missedSet = new Set(report.words);
+  const more = pool.filter(w => !missedSet.has(w.word.toUpperCase()) && wordHasPattern(w.word, report.pattern));
+  return [...missed, ...more].slice(0, limit);
+};
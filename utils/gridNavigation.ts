@@ -0,0 +1,24 @@
+/**
+ * Where a key press moves focus in a grid of `disabled.length` cells laid
+ * out `columns` wide. Arrows move one cell or one row, Home and End jump to
+ * the first and last cell, and disabled cells are stepped over. Returns
+ * null when the key isn't a move or there is nowhere to go.
+ */
+export const findGridTarget = (key: string, from: number, disabled: boolean[], columns: number): number | null => {
+  const count = disabled.length;
+  const firstEnabled = (start: number, step: number) => {
+    for (let i = start; i >= 0 && i < count; i += step) {
+      if (!disabled[i]) return i;
+    }
+    return null;
+  };
+  switch (key) {
+    case 'ArrowLeft': return firstEnabled(from - 1, -1);
+    case 'ArrowRight': return firstEnabled(from + 1, 1);
+    case 'ArrowUp': return firstEnabled(from - columns, -columns);
+    case 'ArrowDown': return firstEnabled(from + columns, columns);
+    case 'Home': return firstEnabled(0, 1);
+    case 'End': return firstEnabled(count - 1, -1);
+    default: return null;
+  }
+};
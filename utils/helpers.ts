@@ -1,34 +1,66 @@
 
-import { TileItem } from '../types.ts';
-import { ALPHABET, EXTRA_TILES_COUNT } from '../constants.ts';
+import { TileItem, TileDifficulty, RoundStats, LanguageCode } from '../types.ts';
+import { DEFAULT_LANGUAGE, HINT_COSTS, MIN_HINTED_CREDIT } from '../constants.ts';
+import { pickDistractors } from './distractors.ts';
+import { spelledLetters } from './languages.ts';
+import { RandomSource, randomId, shuffle } from './random.ts';
 
-export const generateTilePool = (word: string): TileItem[] => {
-  const letters = word.toUpperCase().split('').filter(char => /[A-Z]/.test(char));
+/** A plain object, as opposed to null, an array or a primitive; for checking parsed JSON. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Tiles for the word's letters plus distractors. Punctuation is pre-filled, so it gets no tile. */
+export const generateTilePool = (word: string, difficulty: TileDifficulty = 'medium', rng: RandomSource = Math.random, language: LanguageCode = DEFAULT_LANGUAGE): TileItem[] => {
+  const letters = spelledLetters(word);
   
   const wordTiles: TileItem[] = letters.map((letter, index) => ({
-    id: `word-${letter}-${index}-${Math.random().toString(36).substr(2, 9)}`,
+    id: `word-${letter}-${index}-${randomId(rng)}`,
     letter,
     isUsed: false,
   }));
 
-  const wordSet = new Set(letters);
-  const poolOfExtras = ALPHABET.filter(l => !wordSet.has(l));
-  const extraLetters: string[] = [];
-  
-  for (let i = 0; i < EXTRA_TILES_COUNT; i++) {
-    const randomIdx = Math.floor(Math.random() * poolOfExtras.length);
-    extraLetters.push(poolOfExtras[randomIdx]);
-  }
+  const extraLetters = pickDistractors(letters.join(''), difficulty, rng, language);
 
   const extraTiles: TileItem[] = extraLetters.map((letter, index) => ({
-    id: `extra-${letter}-${index}-${Math.random().toString(36).substr(2, 9)}`,
+    id: `extra-${letter}-${index}-${randomId(rng)}`,
     letter,
     isUsed: false,
   }));
 
-  return [...wordTiles, ...extraTiles].sort(() => Math.random() - 0.5);
+  return shuffle(rng, [...wordTiles, ...extraTiles]);
+};
+
+/** 1 for a correct word, less for each hint used, 0 for skipped or wrong. */
+export const wordCredit = (stat: RoundStats): number => {
+  if (!stat.correct) return 0;
+  const cost = (stat.hintsUsed ?? []).reduce((sum, hint) => sum + HINT_COSTS[hint], 0);
+  return cost > 0 ? Math.max(MIN_HINTED_CREDIT, 1 - cost) : 1;
+};
+
+export const sessionScore = (history: RoundStats[]): number =>
+  history.reduce((sum, stat) => sum + wordCredit(stat), 0);
+
+/**
+ * Score is the sum of word credits. A perfect score (every word, no
+ * hints) = 3 stars, at least 70% = 2 stars, at least 30% = 1 star.
+ */
+export const starsForScore = (score: number, total: number): number => {
+  if (total <= 0) return 0;
+  if (score >= total) return 3;
+  if (score >= Math.ceil(total * 0.7)) return 2;
+  if (score >= Math.ceil(total * 0.3)) return 1;
+  return 0;
 };
 
-export const isAlpha = (char: string): boolean => {
-  return /^[A-Z]$/i.test(char);
+/**
+ * Blanks out the target word (and forms that start with it, like
+ * MYTH -> MYTHS or CONTINUE -> CONTINUED) so on-screen hints don't
+ * give the spelling away. The blank has a fixed width so it doesn't
+ * hint at the length either. Word edges are found by letter, not \b,
+ * so words that start with an accent (ÁRBOL, ÉCOLE) are caught too.
+ */
+export const maskWord = (text: string, word: string, locale?: string): string => {
+  if (!word) return text;
+  const escaped = word.normalize('NFC').toLocaleLowerCase(locale).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.normalize('NFC').replace(new RegExp(`(?<!\\p{L})${escaped}\\p{L}*`, 'giu'), '_____');
 };
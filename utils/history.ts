@@ -0,0 +1,9 @@
+import { RoundStats, WordHistory } from '../types.ts';
+
+// Older attempts stop mattering for scheduling and stats, so keep storage bounded.
+export const MAX_ATTEMPTS_PER_WORD = 50;
+
+export const appendRoundStats = (history: WordHistory, stat: RoundStats): WordHistory => {
+  const attempts = [...(history[stat.word] ?? []), stat].slice(-MAX_ATTEMPTS_PER_WORD);
+  return { ...history, [stat.word]: attempts };
+};
@@ -0,0 +1,55 @@
+import { LanguageCode, LanguageConfig, WordList } from '../types.ts';
+import { DEFAULT_LANGUAGE, LANGUAGES, PREFILLED_CHARACTERS } from '../constants.ts';
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && value in LANGUAGES;
+
+export const getLanguage = (code: LanguageCode | undefined): LanguageConfig =>
+  LANGUAGES[isLanguageCode(code) ? code : DEFAULT_LANGUAGE];
+
+export const listLanguage = (list: WordList): LanguageCode =>
+  isLanguageCode(list.language) ? list.language : DEFAULT_LANGUAGE;
+
+/**
+ * Upper-cases a word the way its language does. Words are composed to NFC
+ * first, so an É typed as E plus a combining accent is one tile, not two.
+ */
+export const toWordCase = (word: string, code: LanguageCode | undefined): string => {
+  const { locale, upperCaseOverrides = {} } = getLanguage(code);
+  const composed = word.normalize('NFC');
+  const overridden = [...composed].map(ch => upperCaseOverrides[ch] ?? ch).join('');
+  return overridden.toLocaleUpperCase(locale);
+};
+
+export const isLetterOf = (char: string, code: LanguageCode | undefined): boolean =>
+  getLanguage(code).alphabet.includes(char);
+
+export const isPrefilled = (char: string): boolean => PREFILLED_CHARACTERS.includes(char);
+
+/** The letters of a word a player has to spell, without its punctuation. */
+export const spelledLetters = (word: string): string[] => [...word].filter(ch => !isPrefilled(ch));
+
+/**
+ * Copies any punctuation that comes next in the word onto what has been
+ * spelled so far, so the player only ever spells letters.
+ */
+export const fillPrefilled = (typed: string, word: string): string => {
+  let next = typed;
+  while (next.length < word.length && isPrefilled(word[next.length])) next += word[next.length];
+  return next;
+};
+
+/** Removes the last spelled letter along with the punctuation filled in after it. */
+export const eraseSpelledLetter = (typed: string, word: string): string => {
+  let end = typed.length;
+  while (end > 0 && isPrefilled(typed[end - 1])) end--;
+  return fillPrefilled(typed.slice(0, Math.max(0, end - 1)), word);
+};
+
+/** The accented forms sharing a letter's base (E -> É, È...), plus the language's own look-alikes. */
+export const accentLookAlikes = (letter: string, code: LanguageCode | undefined): string[] => {
+  const { alphabet, lookAlikes = {} } = getLanguage(code);
+  const base = (ch: string) => ch.normalize('NFD')[0];
+  const family = alphabet.filter(l => l !== letter && base(l) === base(letter));
+  return [...new Set([...family, ...(lookAlikes[letter] ?? [])])];
+};
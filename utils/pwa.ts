@@ -0,0 +1,66 @@
+/// <reference types="vite/client" />
+
+let updateReady = false;
+const updateListeners = new Set<() => void>();
+
+const markUpdateReady = () => {
+  updateReady = true;
+  updateListeners.forEach(listener => listener());
+};
+
+/**
+ * Calls the listener once a newer build has finished caching and is
+ * waiting to take over (immediately, if one already is). Returns an
+ * unsubscribe function.
+ */
+export const onUpdateReady = (listener: () => void) => {
+  updateListeners.add(listener);
+  if (updateReady) listener();
+  return () => { updateListeners.delete(listener); };
+};
+
+/**
+ * Registers the service worker built by pwa/vitePwaPlugin.ts. It only
+ * exists in production builds, so this is a no-op under `vite dev`.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('sw.js');
+      // An update that finished installing during an earlier visit.
+      if (registration.waiting && navigator.serviceWorker.controller) markUpdateReady();
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          // With no controller this is the first install, not an update.
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) markUpdateReady();
+        });
+      });
+    } catch (err) {
+      console.error('Service worker registration failed:', err);
+    }
+  });
+};
+
+/** Tells the waiting service worker to take over; the page reloads once it has. */
+export const applyUpdate = async () => {
+  const registration = await navigator.serviceWorker?.getRegistration();
+  registration?.waiting?.postMessage({ type: 'SKIP_WAITING' });
+};
+
+/**
+ * Asks the service worker to cache extra files, such as the audio of an
+ * imported word list, so they keep working offline.
+ */
+export const cacheForOffline = (urls: string[]) => {
+  if (urls.length === 0) return;
+  navigator.serviceWorker?.controller?.postMessage({ type: 'CACHE_URLS', urls });
+};
@@ -0,0 +1,56 @@
+/** A source of random numbers in [0, 1), like Math.random. */
+export type RandomSource = () => number;
+
+/**
+ * Mulberry32: a tiny, fast seeded PRNG. The same seed always produces the
+ * same sequence, which keeps tile layouts reproducible and testable.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** FNV-1a: turns a string (a date, a session id) into a 32-bit seed. */
+export const hashString = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** A fresh seed for sessions that don't need to be reproduced. */
+export const createRandomSeed = (): number =>
+  typeof crypto !== 'undefined' && crypto.getRandomValues
+    ? crypto.getRandomValues(new Uint32Array(1))[0]
+    : Math.floor(Math.random() * 2 ** 32);
+
+/**
+ * An independent stream derived from a seed, e.g. one per round, so a
+ * round's tiles don't depend on how many numbers earlier rounds used.
+ */
+export const deriveRandom = (seed: number, ...parts: (string | number)[]): RandomSource =>
+  createSeededRandom(hashString([seed, ...parts].join(':')));
+
+export const randomInt = (rng: RandomSource, maxExclusive: number): number => Math.floor(rng() * maxExclusive);
+
+export const pickRandom = <T>(rng: RandomSource, items: T[]): T => items[randomInt(rng, items.length)];
+
+/** Fisher-Yates shuffle; returns a new array. */
+export const shuffle = <T>(rng: RandomSource, items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(rng, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const randomId = (rng: RandomSource): string => rng().toString(36).substr(2, 9);
@@ -0,0 +1,47 @@
+import { RoundStats, ReviewCard, ReviewDeck } from '../types.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Leitner boxes: a word starts in box 1 when the child struggles with it
+ * and moves up one box per clean answer. Box N comes back after
+ * BOX_INTERVAL_DAYS[N - 1] days; a clean answer in the last box masters it.
+ */
+export const BOX_INTERVAL_DAYS = [1, 2, 4, 8, 16];
+
+// A word counts as slow when it takes longer than this per letter.
+export const SLOW_SECONDS_PER_LETTER = 3;
+
+export const isStruggle = (stat: RoundStats): boolean =>
+  stat.skipped || !stat.correct || stat.mistakes >= 2 || (stat.hintsUsed?.length ?? 0) > 0
+  || stat.timeSpent > stat.word.length * SLOW_SECONDS_PER_LETTER;
+
+/**
+ * Applies one round to the word's card. Words that were never a struggle
+ * don't get a card at all, so the deck only holds words that need work.
+ */
+export const scheduleReview = (card: ReviewCard | undefined, stat: RoundStats, now: number): ReviewCard | undefined => {
+  if (isStruggle(stat)) {
+    return { word: stat.word, box: 1, dueAt: now + BOX_INTERVAL_DAYS[0] * DAY_MS, lapses: (card?.lapses ?? 0) + 1, mastered: false };
+  }
+  if (!card || card.mastered) return card;
+  // A clean answer only counts once the card is due; early replays don't skip boxes.
+  if (card.dueAt > now) return card;
+  const box = card.box + 1;
+  if (box > BOX_INTERVAL_DAYS.length) return { ...card, box, mastered: true };
+  return { ...card, box, dueAt: now + BOX_INTERVAL_DAYS[box - 1] * DAY_MS };
+};
+
+export const applyRoundToDeck = (deck: ReviewDeck, stat: RoundStats, now: number): ReviewDeck => {
+  const card = scheduleReview(deck[stat.word], stat, now);
+  if (!card || card === deck[stat.word]) return deck;
+  return { ...deck, [stat.word]: card };
+};
+
+/** Due words, most overdue first (ties broken by how often they were missed). */
+export const getDueWords = (deck: ReviewDeck, now: number, limit: number): string[] =>
+  Object.values(deck)
+    .filter(card => !card.mastered && card.dueAt <= now)
+    .sort((a, b) => a.dueAt - b.dueAt || b.lapses - a.lapses)
+    .slice(0, limit)
+    .map(card => card.word);
@@ -0,0 +1,25 @@
+import { OutfitItem, OutfitSlot, Rewards } from '../types.ts';
+import { OUTFIT_ITEMS } from '../constants.ts';
+
+export const createRewards = (): Rewards => ({ coins: 0, achievements: {}, newlyEarned: [], owned: [], outfit: {} });
+
+export const findOutfitItem = (id: string | undefined) => OUTFIT_ITEMS.find(item => item.id === id);
+
+export const canBuy = (rewards: Rewards, item: OutfitItem) =>
+  !rewards.owned.includes(item.id) && rewards.coins >= item.price;
+
+/** Spends the coins and puts the item on straight away. Assumes canBuy. */
+export const buyItem = (rewards: Rewards, item: OutfitItem): Rewards => ({
+  ...rewards,
+  coins: rewards.coins - item.price,
+  owned: [...rewards.owned, item.id],
+  outfit: { ...rewards.outfit, [item.slot]: item.id },
+});
+
+export const equipItem = (rewards: Rewards, item: OutfitItem): Rewards =>
+  rewards.owned.includes(item.id) ? { ...rewards, outfit: { ...rewards.outfit, [item.slot]: item.id } } : rewards;
+
+export const unequipSlot = (rewards: Rewards, slot: OutfitSlot): Rewards => {
+  const { [slot]: _removed, ...outfit } = rewards.outfit;
+  return { ...rewards, outfit };
+};
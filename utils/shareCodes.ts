@@ -0,0 +1,36 @@
+// Compressed codes start with 'z'; 'j' is plain JSON, for browsers without CompressionStream.
+const COMPRESSED = 'z';
+const PLAIN = 'j';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Packs any JSON value into a short, URL-safe string. */
+export const encodeShareCode = async (value: unknown): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(value));
+  if (typeof CompressionStream === 'undefined') return PLAIN + toBase64Url(json);
+  return COMPRESSED + toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')));
+};
+
+/** Reverses encodeShareCode. Throws if the code is damaged or incomplete. */
+export const decodeShareCode = async (code: string): Promise<unknown> => {
+  const trimmed = code.trim();
+  const body = fromBase64Url(trimmed.slice(1));
+  if (trimmed[0] === PLAIN) return JSON.parse(new TextDecoder().decode(body));
+  if (trimmed[0] !== COMPRESSED) throw new Error('Unknown code format');
+  if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot open compressed codes');
+  return JSON.parse(new TextDecoder().decode(await pipeBytes(body, new DecompressionStream('deflate-raw'))));
+};
@@ -0,0 +1,208 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { SpeechProviderId } from '../types.ts';
+import { getCachedPcm, putCachedPcm } from './ttsCache.ts';
+
+export interface SpeechRequest {
+  text: string;
+  audio?: string; // static file for this text, if there is one
+  slow?: boolean;
+  lang?: string; // BCP 47 tag of the word's language, English when missing
+}
+
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  isAvailable: (req: SpeechRequest) => boolean;
+  /** Resolves once the text is playing or done; `signal` aborts when a newer request replaces this one. */
+  speak: (req: SpeechRequest, signal: AbortSignal) => Promise<void>;
+  stop: () => void;
+}
+
+export class SpeechUnavailableError extends Error {
+  constructor(text: string, public readonly causes: unknown[]) {
+    super(`No speech provider could say "${text}"`);
+    this.name = 'SpeechUnavailableError';
+  }
+}
+
+export const SPEECH_PROVIDER_LABELS: Record<SpeechProviderId, string> = {
+  static: 'Recorded audio files',
+  webSpeech: 'Device voice',
+  gemini: 'Gemini voice (online)',
+};
+
+const TTS_SAMPLE_RATE = 24000;
+const GEMINI_VOICE = 'Kore';
+const DEFAULT_LANG = 'en-US';
+
+function decodeBase64(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function decodeAudioData(
+  data: Uint8Array,
+  ctx: AudioContext,
+  sampleRate: number,
+  numChannels: number,
+): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+const getApiKey = (): string | undefined => {
+  try {
+    return process.env.API_KEY || undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const createStaticFileProvider = (getAudioElement: () => HTMLAudioElement | null): SpeechProvider => ({
+  id: 'static',
+  isAvailable: req => !!req.audio && !!getAudioElement(),
+  speak: async (req) => {
+    const audio = getAudioElement()!;
+    audio.pause();
+    audio.src = req.audio!;
+    audio.load();
+    audio.playbackRate = req.slow ? 0.6 : 1;
+    await audio.play();
+  },
+  stop: () => getAudioElement()?.pause(),
+});
+
+/** The device voice for a language: an exact locale match first, then any voice for the same language. */
+const findVoice = (lang: string): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis.getVoices();
+  const primary = lang.split('-')[0].toLowerCase();
+  return voices.find(v => v.lang.toLowerCase() === lang.toLowerCase())
+    ?? voices.find(v => v.lang.toLowerCase().split(/[-_]/)[0] === primary);
+};
+
+export const createWebSpeechProvider = (): SpeechProvider => ({
+  id: 'webSpeech',
+  isAvailable: () => typeof window !== 'undefined' && 'speechSynthesis' in window,
+  speak: (req) => new Promise((resolve, reject) => {
+    const utterance = new SpeechSynthesisUtterance(req.text);
+    utterance.lang = req.lang ?? DEFAULT_LANG;
+    const voice = findVoice(utterance.lang);
+    if (voice) utterance.voice = voice;
+    utterance.rate = req.slow ? 0.5 : 0.85;
+    utterance.onend = () => resolve();
+    utterance.onerror = (e) => reject(new Error(`Speech synthesis failed: ${e.error}`));
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(utterance);
+  }),
+  stop: () => window.speechSynthesis?.cancel(),
+});
+
+interface GeminiProviderOptions {
+  getAudioContext: () => AudioContext;
+  onGenerating: (isGenerating: boolean) => void;
+}
+
+export const createGeminiProvider = ({ getAudioContext, onGenerating }: GeminiProviderOptions): SpeechProvider => {
+  let current: AudioBufferSourceNode | null = null;
+
+  const synthesize = async (text: string, slow: boolean, lang: string): Promise<Uint8Array> => {
+    // English keys keep their old shape so words cached before languages existed still hit.
+    const cacheKey = `gemini:${GEMINI_VOICE}:${lang === DEFAULT_LANG ? '' : `${lang}:`}${slow ? 'slow:' : ''}${text}`;
+    const cached = await getCachedPcm(cacheKey);
+    if (cached) return cached;
+
+    onGenerating(true);
+    try {
+      const ai = new GoogleGenAI({ apiKey: getApiKey() });
+      const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash-preview-tts",
+        contents: [{ parts: [{ text: slow ? `Say slowly, syllable by syllable: ${text}` : `Say clearly: ${text}` }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            languageCode: lang,
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: GEMINI_VOICE } },
+          },
+        },
+      });
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) throw new Error('Gemini returned no audio');
+      const pcm = decodeBase64(base64Audio);
+      await putCachedPcm(cacheKey, pcm);
+      return pcm;
+    } finally {
+      onGenerating(false);
+    }
+  };
+
+  return {
+    id: 'gemini',
+    // Cached words play offline too, but we can't know that synchronously; speak() rejects if needed.
+    isAvailable: () => !!getApiKey(),
+    speak: async (req, signal) => {
+      const pcm = await synthesize(req.text, !!req.slow, req.lang ?? DEFAULT_LANG);
+      const ctx = getAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      const source = ctx.createBufferSource();
+      source.buffer = await decodeAudioData(pcm, ctx, TTS_SAMPLE_RATE, 1);
+      // A newer word was asked for while this one was generating; don't talk over it.
+      if (signal.aborted) return;
+      source.connect(ctx.destination);
+      current?.stop();
+      current = source;
+      source.start();
+    },
+    stop: () => {
+      current?.stop();
+      current = null;
+    },
+  };
+};
+
+// The request currently speaking; starting another aborts it before stopping the providers.
+let activeRequest: AbortController | null = null;
+
+/**
+ * Tries each provider in the given order until one speaks. Resolves with the
+ * provider that spoke, or null when a newer request cut this one off: the
+ * AbortError or "interrupted" that stopping causes is not a failure, so it
+ * neither falls through to the next provider nor gets reported. Throws
+ * SpeechUnavailableError with every provider's failure if none can.
+ */
+export const speakWithProviders = async (
+  providers: SpeechProvider[],
+  order: SpeechProviderId[],
+  req: SpeechRequest,
+): Promise<SpeechProviderId | null> => {
+  activeRequest?.abort();
+  const request = new AbortController();
+  activeRequest = request;
+  providers.forEach(p => p.stop());
+  const { signal } = request;
+  const causes: unknown[] = [];
+  for (const id of order) {
+    const provider = providers.find(p => p.id === id);
+    if (!provider || !provider.isAvailable(req)) continue;
+    try {
+      await provider.speak(req, signal);
+      return signal.aborted ? null : provider.id;
+    } catch (err) {
+      if (signal.aborted) return null;
+      causes.push(err);
+    }
+  }
+  throw new SpeechUnavailableError(req.text, causes);
+};
@@ -0,0 +1,59 @@
+import { DiffPart, LetterError } from '../types.ts';
+
+/**
+ * Aligns a typed attempt against the target word (Levenshtein alignment)
+ * and returns one part per letter position:
+ *  - match:   typed the right letter
+ *  - wrong:   typed a different letter in this spot
+ *  - extra:   typed a letter the word doesn't have
+ *  - missing: left out a letter of the word
+ */
+export const diffSpelling = (typed: string, target: string): DiffPart[] => {
+  const a = typed.toUpperCase();
+  const b = target.toUpperCase();
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const dist: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dist[i][j] = Math.min(dist[i - 1][j] + 1, dist[i][j - 1] + 1, dist[i - 1][j - 1] + cost);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+      parts.unshift({ kind: a[i - 1] === b[j - 1] ? 'match' : 'wrong', typed: a[i - 1], expected: b[j - 1] });
+      i--; j--;
+    } else if (j > 0 && dist[i][j] === dist[i][j - 1] + 1) {
+      parts.unshift({ kind: 'missing', expected: b[j - 1] });
+      j--;
+    } else {
+      parts.unshift({ kind: 'extra', typed: a[i - 1] });
+      i--;
+    }
+  }
+  return parts;
+};
+
+export const countSpellingErrors = (parts: DiffPart[]): number =>
+  parts.filter(p => p.kind !== 'match').length;
+
+/** The wrong letters of a diff, positioned in the target word (an extra letter takes the spot it was slipped into). */
+export const diffToLetterErrors = (parts: DiffPart[]): LetterError[] => {
+  const errors: LetterError[] = [];
+  let position = 0;
+  parts.forEach(p => {
+    if (p.kind === 'wrong') errors.push({ position, chosen: p.typed!, expected: p.expected! });
+    if (p.kind === 'missing') errors.push({ position, chosen: '', expected: p.expected! });
+    if (p.kind === 'extra') errors.push({ position, chosen: p.typed!, expected: '' });
+    else position++;
+  });
+  return errors;
+};
@@ -0,0 +1,158 @@
+import { StageProgress, WordData } from '../types.ts';
+import { splitSyllables } from './syllables.ts';
+import { ERROR_PATTERNS, wordHasPattern } from './errorPatterns.ts';
+import { spelledLetters } from './languages.ts';
+
+// How much each feature adds to a word's difficulty score.
+const SCORE_WEIGHTS = { letter: 1, syllable: 1.5, irregularPattern: 2 };
+
+/**
+ * A rough difficulty score: longer words, more syllables and more tricky
+ * spelling patterns (double letters, ie/ei, silent letters...) score higher.
+ */
+export const scoreWordDifficulty = (word: string): number => {
+  const upper = word.toUpperCase();
+  const irregular = ERROR_PATTERNS.filter(p => !p.fallback && wordHasPattern(upper, p)).length;
+  return spelledLetters(upper).length * SCORE_WEIGHTS.letter
+    + splitSyllables(upper).length * SCORE_WEIGHTS.syllable
+    + irregular * SCORE_WEIGHTS.irregularPattern;
+};
+
+/**
+ * Orders words from easiest to hardest and splits them into as many stages
+ * as the list needs. Stage sizes differ by at most one word, so a list that
+ * doesn't divide evenly doesn't end in a one-word stage.
+ */
+export const buildStages = (words: WordData[], stageSize: number): WordData[][] => {
+  if (words.length === 0) return [[]];
+  const sorted = words
+    .map(entry => ({ entry, score: scoreWordDifficulty(entry.word) }))
+    .sort((a, b) => a.score - b.score || a.entry.word.localeCompare(b.entry.word))
+    .map(s => s.entry);
+  const stageCount = Math.ceil(sorted.length / Math.max(1, stageSize));
+  const base = Math.floor(sorted.length / stageCount);
+  const extra = sorted.length % stageCount;
+  const stages: WordData[][] = [];
+  let start = 0;
+  for (let i = 0; i < stageCount; i++) {
+    const size = base + (i < extra ? 1 : 0);
+    stages.push(sorted.slice(start, start + size));
+    start += size;
+  }
+  return stages;
+};
+
+const stageWordKeys = (stage: WordData[]) => stage.map(w => w.word.toUpperCase());
+
+/**
+ * Saves from before stages recorded their words only have a position, so
+ * give each one the words it held then: the list in its own order, cut
+ * into stages of the old fixed size. Those saves could stop short of the
+ * last stage, so the rest of the list is filled in as unplayed stages.
+ */
+const withSavedWords = (saved: StageProgress[], listWords: WordData[], legacyStageSize: number): (StageProgress & { words: string[] })[] => {
+  const isLegacy = saved.length > 0 && saved.every(p => !p.words);
+  const legacyCount = Math.ceil(listWords.length / Math.max(1, legacyStageSize));
+  const unplayed: StageProgress = { stars: 0, isUnlocked: false, correctCount: 0 };
+  const entries = isLegacy && saved.length < legacyCount
+    ? [...saved, ...Array.from({ length: legacyCount - saved.length }, () => unplayed)]
+    : saved;
+  return entries.map((p, i) => ({
+    ...p,
+    words: p.words ?? stageWordKeys(listWords.slice(i * legacyStageSize, (i + 1) * legacyStageSize)),
+  }));
+};
+
+/**
+ * The stages the saved progress was played in, when they still fit: every
+ * word of the list in exactly one saved stage, with as many stages as this
+ * size makes. Keeping that layout means a player's stars stay exactly where
+ * they were earned, including saves from before stages were built by
+ * difficulty, until the list or the stage size changes. Null when it
+ * doesn't fit and the stages have to be built afresh.
+ */
+export const savedStageLayout = (
+  saved: StageProgress[],
+  listWords: WordData[],
+  stageSize: number,
+  legacyStageSize: number,
+): WordData[][] | null => {
+  const byKey = new Map(listWords.map(w => [w.word.toUpperCase(), w]));
+  const stageCount = Math.ceil(byKey.size / Math.max(1, stageSize));
+  const entries = withSavedWords(saved, listWords, legacyStageSize);
+  // Each layout was saved as one run of stages, newest first, so look for a run that covers the list.
+  for (let start = 0; start + stageCount <= entries.length; start++) {
+    const run = entries.slice(start, start + stageCount);
+    const placed = new Set<string>();
+    const fits = run.every(p => {
+      if (p.words.length === 0 || p.words.length > stageSize) return false;
+      if (p.words.some(w => !byKey.has(w) || placed.has(w))) return false;
+      p.words.forEach(w => placed.add(w));
+      return true;
+    });
+    if (fits && placed.size === byKey.size) return run.map(p => p.words.map(w => byKey.get(w)!));
+  }
+  return null;
+};
+
+/**
+ * Lines saved progress up with the current stages by their words, not
+ * their position, so editing a list or changing the stage size keeps stars
+ * with the words that earned them. A stage saved with exactly the same
+ * words keeps its stars. Otherwise each word keeps the best stars of any
+ * saved stage it was in, and the stage gets the average of the words that
+ * have earned some, so a few unplayed words don't wipe out the rest.
+ * Stages unlock in order, each one after the one before has a star.
+ */
+export const alignStageProgress = (
+  saved: StageProgress[],
+  stages: WordData[][],
+  listWords: WordData[],
+  legacyStageSize: number,
+): StageProgress[] => {
+  const savedStages = withSavedWords(saved, listWords, legacyStageSize);
+  const wordStars = new Map<string, number>();
+  savedStages.forEach(p => p.words.forEach(w => wordStars.set(w, Math.max(wordStars.get(w) ?? 0, p.stars))));
+
+  const aligned = stages.map(stage => {
+    const words = stageWordKeys(stage);
+    const same = savedStages.filter(p => p.words.length === words.length && p.words.every(w => words.includes(w)));
+    const earned = words.map(w => wordStars.get(w) ?? 0).filter(stars => stars > 0);
+    const stars = same.length > 0
+      ? Math.max(...same.map(p => p.stars))
+      : earned.length > 0 ? Math.round(earned.reduce((sum, n) => sum + n, 0) / earned.length) : 0;
+    // Share out each saved stage's count by how many of its words landed here.
+    const correctCount = savedStages.reduce((sum, p) => {
+      const shared = p.words.filter(w => words.includes(w)).length;
+      return sum + (p.words.length ? Math.round(p.correctCount * shared / p.words.length) : 0);
+    }, 0);
+    return { stars, correctCount: Math.min(correctCount, words.length), words };
+  });
+
+  const progress: StageProgress[] = [];
+  aligned.forEach((p, i) => {
+    const isUnlocked = i === 0 || (progress[i - 1].isUnlocked && progress[i - 1].stars >= 1);
+    progress.push({ ...p, isUnlocked });
+  });
+  return progress;
+};
+
+/**
+ * What to save after playing: the current stages, plus every older saved
+ * stage that isn't one of them, so switching back to an earlier stage size
+ * finds its stages as they were. Stages left with none of the list's words
+ * are dropped.
+ */
+export const mergeStageProgress = (
+  saved: StageProgress[],
+  current: StageProgress[],
+  listWords: WordData[],
+  legacyStageSize: number,
+): StageProgress[] => {
+  const inList = new Set(stageWordKeys(listWords));
+  const isCurrent = (p: StageProgress & { words: string[] }) => current.some(c =>
+    c.words?.length === p.words.length && p.words.every(w => c.words!.includes(w)) && c.stars >= p.stars);
+  const older = withSavedWords(saved, listWords, legacyStageSize)
+    .filter(p => p.words.some(w => inList.has(w)) && !isCurrent(p));
+  return [...current, ...older];
+};
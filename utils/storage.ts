@@ -0,0 +1,292 @@
+import { SaveData, Profile, ProfileSettings, StageProgress, SpeechProviderId, Rewards, Outfit, OutfitSlot, RoundStats, ReviewCard, ChallengeMode, ChallengeResult, DailyResult, DailyMark, HintType, LetterError, WordHistory, ReviewDeck } from '../types.ts';
+import { BUILT_IN_LIST_ID, SPEECH_PROVIDER_IDS, TILE_DIFFICULTY_CONFIG, WORDS_PER_STAGE, STAGE_SIZE_OPTIONS, THEMES, HINT_COSTS } from '../constants.ts';
+import { createRewards, findOutfitItem } from './rewards.ts';
+import { BOX_INTERVAL_DAYS } from './review.ts';
+import { isRecord } from './helpers.ts';
+
+const SAVE_KEY = 'kitty_speller_save';
+
+export const SAVE_VERSION = 1;
+
+// Keys written before profiles existed; read once by the v0 -> v1 migration.
+const LEGACY_KEYS = {
+  progress: 'kitty_speller_progress',
+  activeList: 'kitty_speller_active_list',
+  inputMode: 'kitty_speller_input_mode',
+  history: 'kitty_speller_history',
+  review: 'kitty_speller_review',
+};
+const LEGACY_PROGRESS_PREFIX = 'kitty_speller_progress_';
+
+const DEFAULT_SETTINGS: ProfileSettings = {
+  activeListId: BUILT_IN_LIST_ID,
+  inputMode: 'tiles',
+  speechOrder: SPEECH_PROVIDER_IDS,
+  tileDifficulty: 'medium',
+  hintsEnabled: true,
+  wordsPerStage: WORDS_PER_STAGE,
+  theme: 'classic',
+  reducedMotion: false,
+  dyslexiaFont: false,
+};
+
+const readJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+export const createProfile = (name: string): Profile => ({
+  id: newId('profile'),
+  name: name.trim() || 'Player',
+  createdAt: Date.now(),
+  settings: { ...DEFAULT_SETTINGS },
+  progress: {},
+  history: {},
+  reviewDeck: {},
+  challengeBests: { timed: [], lives: [] },
+  daily: { results: [], bestStreak: 0 },
+  rewards: createRewards(),
+});
+
+const createSaveData = (profile: Profile = createProfile('Player 1')): SaveData => ({
+  version: SAVE_VERSION,
+  activeProfileId: profile.id,
+  profiles: [profile],
+});
+
+const isStageProgressArray = (value: unknown): value is StageProgress[] =>
+  Array.isArray(value) && value.every(p => isRecord(p) && typeof p.stars === 'number' && typeof p.isUnlocked === 'boolean'
+    && (p.words === undefined || (Array.isArray(p.words) && p.words.every((w: unknown) => typeof w === 'string'))));
+
+/**
+ * Migrations keyed by the version they upgrade FROM. Each one receives the
+ * previous shape and returns the next; loadSaveData runs them in order.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // v0: no save object, everything lived under separate localStorage keys.
+  0: () => {
+    const profile = createProfile('Player 1');
+    const progress = readJson(LEGACY_KEYS.progress);
+    if (isStageProgressArray(progress)) profile.progress[BUILT_IN_LIST_ID] = progress;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(LEGACY_PROGRESS_PREFIX)) continue;
+      const listProgress = readJson(key);
+      if (isStageProgressArray(listProgress)) profile.progress[key.slice(LEGACY_PROGRESS_PREFIX.length)] = listProgress;
+    }
+    const activeList = localStorage.getItem(LEGACY_KEYS.activeList);
+    if (activeList) profile.settings.activeListId = activeList;
+    if (localStorage.getItem(LEGACY_KEYS.inputMode) === 'keyboard') profile.settings.inputMode = 'keyboard';
+    const history = readJson(LEGACY_KEYS.history);
+    profile.history = sanitizeHistory(history);
+    const review = readJson(LEGACY_KEYS.review);
+    profile.reviewDeck = sanitizeReviewDeck(review);
+    return createSaveData(profile);
+  },
+};
+
+const sanitizeSettings = (raw: unknown): ProfileSettings => {
+  const settings = { ...DEFAULT_SETTINGS, ...(isRecord(raw) ? raw : {}) };
+  const order = Array.isArray(settings.speechOrder)
+    ? settings.speechOrder.filter((id: unknown): id is SpeechProviderId => SPEECH_PROVIDER_IDS.includes(id as SpeechProviderId))
+    : DEFAULT_SETTINGS.speechOrder;
+  const tileDifficulty = settings.tileDifficulty in TILE_DIFFICULTY_CONFIG ? settings.tileDifficulty : DEFAULT_SETTINGS.tileDifficulty;
+  const hintsEnabled = typeof settings.hintsEnabled === 'boolean' ? settings.hintsEnabled : DEFAULT_SETTINGS.hintsEnabled;
+  const wordsPerStage = STAGE_SIZE_OPTIONS.includes(settings.wordsPerStage) ? settings.wordsPerStage : DEFAULT_SETTINGS.wordsPerStage;
+  const theme = settings.theme in THEMES ? settings.theme : DEFAULT_SETTINGS.theme;
+  const reducedMotion = typeof settings.reducedMotion === 'boolean' ? settings.reducedMotion : DEFAULT_SETTINGS.reducedMotion;
+  const dyslexiaFont = typeof settings.dyslexiaFont === 'boolean' ? settings.dyslexiaFont : DEFAULT_SETTINGS.dyslexiaFont;
+  return { ...settings, speechOrder: order, tileDifficulty, hintsEnabled, wordsPerStage, theme, reducedMotion, dyslexiaFont };
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Sanitizes each item of an array, dropping the ones that come back null. */
+const sanitizeArray = <T>(raw: unknown, sanitize: (item: unknown) => T | null): T[] =>
+  Array.isArray(raw) ? raw.map(sanitize).filter((item): item is T => item !== null) : [];
+
+const isLetterError = (raw: unknown): raw is LetterError =>
+  isRecord(raw) && isNumber(raw.position) && typeof raw.chosen === 'string' && typeof raw.expected === 'string';
+
+const sanitizeRoundStats = (raw: unknown): RoundStats | null => {
+  if (!isRecord(raw) || typeof raw.word !== 'string' || typeof raw.correct !== 'boolean') return null;
+  const stat: RoundStats = {
+    word: raw.word,
+    mistakes: isNumber(raw.mistakes) ? raw.mistakes : 0,
+    timeSpent: isNumber(raw.timeSpent) ? raw.timeSpent : 0,
+    skipped: raw.skipped === true,
+    correct: raw.correct,
+    playedAt: isNumber(raw.playedAt) ? raw.playedAt : 0,
+  };
+  if (raw.inputMode === 'tiles' || raw.inputMode === 'keyboard') stat.inputMode = raw.inputMode;
+  if (typeof raw.typed === 'string') stat.typed = raw.typed;
+  if (typeof raw.listId === 'string') stat.listId = raw.listId;
+  if (Array.isArray(raw.hintsUsed)) stat.hintsUsed = raw.hintsUsed.filter((h: unknown): h is HintType => typeof h === 'string' && h in HINT_COSTS);
+  if (Array.isArray(raw.letterErrors)) stat.letterErrors = raw.letterErrors.filter(isLetterError);
+  return stat;
+};
+
+const sanitizeHistory = (raw: unknown): WordHistory => {
+  const history: WordHistory = {};
+  if (!isRecord(raw)) return history;
+  Object.entries(raw).forEach(([word, stats]) => {
+    const clean = sanitizeArray(stats, sanitizeRoundStats);
+    if (clean.length > 0) history[word] = clean;
+  });
+  return history;
+};
+
+const sanitizeReviewCard = (raw: unknown): ReviewCard | null => {
+  if (!isRecord(raw) || typeof raw.word !== 'string' || !isNumber(raw.box) || !isNumber(raw.dueAt)) return null;
+  return {
+    word: raw.word,
+    // One past the last box is where mastered cards end up.
+    box: Math.min(Math.max(1, Math.round(raw.box)), BOX_INTERVAL_DAYS.length + 1),
+    dueAt: raw.dueAt,
+    lapses: isNumber(raw.lapses) ? raw.lapses : 0,
+    mastered: raw.mastered === true,
+  };
+};
+
+const sanitizeReviewDeck = (raw: unknown): ReviewDeck => {
+  const deck: ReviewDeck = {};
+  if (!isRecord(raw)) return deck;
+  Object.entries(raw).forEach(([word, card]) => {
+    const clean = sanitizeReviewCard(card);
+    if (clean) deck[word] = clean;
+  });
+  return deck;
+};
+
+const sanitizeChallengeResults = (raw: unknown, mode: ChallengeMode): ChallengeResult[] =>
+  sanitizeArray(raw, r => (isRecord(r) && isNumber(r.score) && isNumber(r.achievedAt)
+    ? { mode, score: r.score, listName: typeof r.listName === 'string' ? r.listName : '', achievedAt: r.achievedAt }
+    : null));
+
+const DAILY_MARKS: DailyMark[] = ['perfect', 'helped', 'missed'];
+
+const sanitizeDailyResult = (raw: unknown): DailyResult | null => {
+  if (!isRecord(raw) || typeof raw.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw.date) || !Array.isArray(raw.marks)) return null;
+  return { date: raw.date, marks: raw.marks.filter((m: unknown): m is DailyMark => DAILY_MARKS.includes(m as DailyMark)) };
+};
+
+/** Keeps only items the shop still sells, and only wears items the player owns. */
+const sanitizeRewards = (raw: unknown): Rewards => {
+  if (!isRecord(raw)) return createRewards();
+  const owned = Array.isArray(raw.owned) ? raw.owned.filter((id: unknown): id is string => typeof id === 'string' && !!findOutfitItem(id)) : [];
+  const outfit: Outfit = {};
+  if (isRecord(raw.outfit)) {
+    Object.entries(raw.outfit).forEach(([slot, id]) => {
+      const item = typeof id === 'string' && owned.includes(id) ? findOutfitItem(id) : undefined;
+      if (item && item.slot === slot) outfit[slot as OutfitSlot] = item.id;
+    });
+  }
+  return {
+    coins: typeof raw.coins === 'number' && raw.coins >= 0 ? Math.floor(raw.coins) : 0,
+    achievements: isRecord(raw.achievements)
+      ? Object.fromEntries(Object.entries(raw.achievements).filter((entry): entry is [string, number] => isNumber(entry[1])))
+      : {},
+    newlyEarned: Array.isArray(raw.newlyEarned) ? raw.newlyEarned.filter((id: unknown) => typeof id === 'string') : [],
+    owned,
+    outfit,
+  };
+};
+
+/**
+ * Fills anything missing or malformed in a migrated save with defaults.
+ * Entries inside history, the review deck and results are checked one by
+ * one, and broken ones are dropped rather than left to crash a screen later.
+ */
+const sanitizeProfile = (raw: unknown): Profile | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string') return null;
+  const challengeBests = isRecord(raw.challengeBests) ? raw.challengeBests : {};
+  const daily = isRecord(raw.daily) ? raw.daily : {};
+  const progress: Profile['progress'] = {};
+  if (isRecord(raw.progress)) {
+    Object.entries(raw.progress).forEach(([listId, p]) => {
+      if (isStageProgressArray(p)) progress[listId] = p;
+    });
+  }
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : 'Player',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+    settings: sanitizeSettings(raw.settings),
+    progress,
+    history: sanitizeHistory(raw.history),
+    reviewDeck: sanitizeReviewDeck(raw.reviewDeck),
+    challengeBests: {
+      timed: sanitizeChallengeResults(challengeBests.timed, 'timed'),
+      lives: sanitizeChallengeResults(challengeBests.lives, 'lives'),
+    },
+    daily: {
+      results: sanitizeArray(daily.results, sanitizeDailyResult),
+      bestStreak: isNumber(daily.bestStreak) ? daily.bestStreak : 0,
+    },
+    rewards: sanitizeRewards(raw.rewards),
+  };
+};
+
+export const migrateSaveData = (raw: unknown): SaveData => {
+  const versionOf = (value: unknown) => (isRecord(value) && typeof value.version === 'number' ? value.version : 0);
+  let data: unknown = raw ?? { version: 0 };
+  let version = versionOf(data);
+  while (version < SAVE_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = versionOf(data);
+  }
+  const save = isRecord(data) ? data : {};
+  const profiles = (Array.isArray(save.profiles) ? save.profiles : []).map(sanitizeProfile).filter((p): p is Profile => p !== null);
+  if (profiles.length === 0) return createSaveData();
+  const activeProfileId = profiles.find(p => p.id === save.activeProfileId)?.id ?? profiles[0].id;
+  return { version: SAVE_VERSION, activeProfileId, profiles };
+};
+
+/**
+ * Loads and upgrades the save. Corrupt JSON or a save from a newer build is
+ * set aside under a backup key rather than thrown away, and a fresh save is used.
+ */
+export const loadSaveData = (): SaveData => {
+  const raw = localStorage.getItem(SAVE_KEY);
+  try {
+    const parsed = raw ? JSON.parse(raw) : undefined;
+    if (parsed !== undefined && !isRecord(parsed)) throw new Error('Save is not an object');
+    if (parsed && parsed.version > SAVE_VERSION) throw new Error(`Save version ${parsed.version} is newer than ${SAVE_VERSION}`);
+    return migrateSaveData(parsed);
+  } catch (err) {
+    console.error('Could not load saved progress:', err);
+    if (raw) localStorage.setItem(`${SAVE_KEY}_backup_${Date.now()}`, raw);
+    return createSaveData();
+  }
+};
+
+export const saveSaveData = (data: SaveData) => {
+  localStorage.setItem(SAVE_KEY, JSON.stringify(data));
+};
+
+const PROFILE_EXPORT_FORMAT = 'kitty-speller-profile';
+
+/** Serializes one player's progress so it can be restored on another device. */
+export const exportProfile = (profile: Profile): string =>
+  JSON.stringify({ format: PROFILE_EXPORT_FORMAT, version: SAVE_VERSION, exportedAt: Date.now(), profile }, null, 2);
+
+/** Reads a file written by exportProfile. Throws with a readable message if it isn't one. */
+export const importProfile = (text: string): Profile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== PROFILE_EXPORT_FORMAT) throw new Error('This is not a Kitty Speller progress export.');
+  if (typeof parsed.version !== 'number' || parsed.version > SAVE_VERSION) throw new Error('This export comes from a newer version of the app.');
+  const profile = sanitizeProfile(parsed.profile);
+  if (!profile) throw new Error('The export has no player in it.');
+  return profile;
+};
@@ -0,0 +1,91 @@
+// Accented vowels count too, so words in other languages still get a rough split.
+const VOWELS = 'AEIOUÁÀÂÄÃÉÈÊËÍÌÎÏÓÒÔÖÕÚÙÛÜŒÆ';
+
+// Consonant pairs that are spelled as one sound and never split.
+const DIGRAPHS = ['CH', 'SH', 'TH', 'PH', 'WH', 'WR', 'GH', 'CK'];
+
+// Consonant pairs that can start a syllable together (PA·RA·GRAPH, DIS·CI·PLINE).
+const LIQUID_BLENDS = ['BL', 'BR', 'CL', 'CR', 'DR', 'FL', 'FR', 'GL', 'GR', 'PL', 'PR', 'TR', 'THR', 'SHR', 'CHR', 'PHR'];
+// S-blends only start a syllable after another consonant (MON·STER, but DIS·TANCE).
+const S_BLENDS = ['SC', 'SK', 'SL', 'SM', 'SN', 'SP', 'ST', 'SW'];
+
+interface Nucleus { start: number; end: number }
+
+const isVowelAt = (w: string, i: number): boolean => {
+  const ch = w[i];
+  if (ch === 'U' && w[i - 1] === 'Q') return false;
+  if (VOWELS.includes(ch)) return true;
+  return ch === 'Y' && i > 0;
+};
+
+const splitUnits = (cluster: string): string[] => {
+  const units: string[] = [];
+  for (let i = 0; i < cluster.length; i++) {
+    const pair = cluster.slice(i, i + 2);
+    if (DIGRAPHS.includes(pair) || pair === 'QU') { units.push(pair); i++; }
+    else units.push(cluster[i]);
+  }
+  return units;
+};
+
+/** Silent endings: final E (SACRIFICE), -ES/-ED (CREATURES, ACHIEVED) and -GUE (TONGUE). */
+const isSilentEnding = (w: string, n: Nucleus): boolean => {
+  const group = w.slice(n.start, n.end);
+  const before = w[n.start - 1] ?? '';
+  const tail = w.slice(n.end);
+  if (!before || isVowelAt(w, n.start - 1)) return false;
+  if (group === 'UE' && before === 'G' && tail === '') return true;
+  if (group !== 'E') return false;
+  if (tail === '') return !(before === 'L' && !isVowelAt(w, n.start - 2));
+  if (tail === 'S') return !'SXZCG'.includes(before) && !w.endsWith('HES');
+  if (tail === 'D') return !'TD'.includes(before);
+  return false;
+};
+
+/**
+ * Rule-of-thumb English syllable split, good enough for a spelling hint
+ * (COMMUNICATION -> COM·MU·NI·CA·TION). Vowel groups are syllable nuclei;
+ * the consonants between two nuclei split V-CV for one consonant, VC-CV
+ * for two and VCC-CV for more, keeping digraphs and onset blends together.
+ */
+const splitWordSyllables = (w: string): string[] => {
+  const nuclei: Nucleus[] = [];
+  for (let i = 0; i < w.length; i++) {
+    if (!isVowelAt(w, i)) continue;
+    const last = nuclei[nuclei.length - 1];
+    if (last && last.end === i) last.end = i + 1;
+    else nuclei.push({ start: i, end: i + 1 });
+  }
+  if (nuclei.length > 1 && isSilentEnding(w, nuclei[nuclei.length - 1])) nuclei.pop();
+  if (nuclei.length <= 1) return [w];
+
+  const breaks: number[] = [];
+  for (let k = 0; k < nuclei.length - 1; k++) {
+    const from = nuclei[k].end;
+    const units = splitUnits(w.slice(from, nuclei[k + 1].start));
+    const unitStart = (idx: number) => from + units.slice(0, idx).join('').length;
+    if (units.length === 0) breaks.push(from);
+    else if (units.length === 1) breaks.push(units[0] === 'X' || units[0] === 'CK' ? unitStart(1) : from);
+    else if (LIQUID_BLENDS.includes(units.slice(-2).join(''))) breaks.push(unitStart(units.length - 2));
+    else if (units.length === 2) breaks.push(unitStart(1));
+    else if (S_BLENDS.includes(units.slice(-2).join(''))) breaks.push(unitStart(units.length - 2));
+    else breaks.push(unitStart(units.length - 1));
+  }
+
+  return [0, ...breaks].map((start, i) => w.slice(start, breaks[i] ?? w.length));
+};
+
+/**
+ * Splits each part of a hyphenated or multi-word entry on its own
+ * (MOTHER-IN-LAW -> MOTH·ER-·IN-·LAW). The hyphen or space stays on the
+ * syllable before it, so the syllable lengths still add up to the word.
+ */
+export const splitSyllables = (word: string): string[] =>
+  (word.toUpperCase().match(/[^- ]+[- ]*|[- ]+/g) ?? ['']).flatMap(part => {
+    const core = part.replace(/[- ]+$/, '');
+    const syllables = core ? splitWordSyllables(core) : [''];
+    syllables[syllables.length - 1] += part.slice(core.length);
+    return syllables;
+  });
+
+export const SYLLABLE_SEPARATOR = '·';
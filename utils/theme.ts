@@ -0,0 +1,23 @@
+import { ProfileSettings, ThemeColor } from '../types.ts';
+import { THEMES } from '../constants.ts';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** The player's own setting, or the device's when it asks for less motion. */
+export const isMotionReduced = (settings: ProfileSettings): boolean =>
+  settings.reducedMotion || (typeof window !== 'undefined' && window.matchMedia(REDUCED_MOTION_QUERY).matches);
+
+/**
+ * Points the COLORS classes at the chosen theme and flags the page for the
+ * stylesheet rules in index.html: data-theme for the high-contrast palette,
+ * data-motion to switch off animations, data-font for the reading font.
+ */
+export const applyTheme = (settings: ProfileSettings) => {
+  const root = document.documentElement;
+  const theme = THEMES[settings.theme];
+  (Object.keys(theme.colors) as ThemeColor[]).forEach(color => root.style.setProperty(`--theme-${color}`, theme.colors[color]));
+  root.dataset.theme = settings.theme === 'highContrast' ? 'high-contrast' : 'classic';
+  root.dataset.motion = isMotionReduced(settings) ? 'reduced' : 'full';
+  root.dataset.font = settings.dyslexiaFont ? 'dyslexic' : 'default';
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', theme.browserColor);
+};
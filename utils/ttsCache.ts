@@ -0,0 +1,51 @@
+/**
+ * IndexedDB cache for generated TTS audio, so each word is synthesized
+ * once per device. Stored values are the raw 16-bit PCM bytes returned by
+ * the TTS API. Every operation degrades to a cache miss if IndexedDB is
+ * unavailable (private browsing, old browsers).
+ */
+const DB_NAME = 'kitty_speller_tts';
+const STORE_NAME = 'pcm';
+const DB_VERSION = 1;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getCachedPcm = async (key: string): Promise<Uint8Array | undefined> => {
+  try {
+    const value = await runRequest<ArrayBuffer | undefined>('readonly', store => store.get(key));
+    return value ? new Uint8Array(value) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const putCachedPcm = async (key: string, pcm: Uint8Array): Promise<void> => {
+  try {
+    // Store a standalone copy; the source view may share a larger buffer.
+    await runRequest('readwrite', store => store.put(pcm.slice().buffer, key));
+  } catch (err) {
+    console.warn('Could not cache TTS audio:', err);
+  }
+};
@@ -0,0 +1,217 @@
+import { WordData, WordList, WordListIssue, WordInfoField, LanguageCode } from '../types.ts';
+import { DEFAULT_LANGUAGE, DEFAULT_WORD_LIST } from '../constants.ts';
+import { getLanguage, isLanguageCode, isLetterOf, isPrefilled, spelledLetters, toWordCase } from './languages.ts';
+import { sanitizeAssignmentSettings } from './assignments.ts';
+import { isRecord } from './helpers.ts';
+
+const LISTS_KEY = 'kitty_speller_word_lists';
+
+export interface ParsedWordList {
+  name: string;
+  language: LanguageCode;
+  words: WordData[];
+  issues: WordListIssue[];
+}
+
+type RawEntry = { word?: unknown; audio?: unknown } & Partial<Record<WordInfoField, unknown>>;
+
+const INFO_FIELDS: WordInfoField[] = ['definition', 'sentence', 'partOfSpeech', 'origin'];
+
+// CSV header spellings accepted for each optional column.
+const CSV_COLUMNS: Record<keyof RawEntry, string[]> = {
+  word: ['word'],
+  audio: ['audio'],
+  definition: ['definition', 'meaning'],
+  sentence: ['sentence', 'example'],
+  partOfSpeech: ['partofspeech', 'part of speech', 'part_of_speech', 'pos'],
+  origin: ['origin', 'etymology'],
+};
+
+/**
+ * Splits one CSV line into cells, honouring double-quoted cells
+ * (which may contain commas and "" escaped quotes).
+ */
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * CSV: one word per row, optional header row naming the columns
+ * ("word", "audio", "definition", "sentence", "part of speech", "origin").
+ * Without a header, the columns are taken in that order.
+ */
+const parseCsv = (text: string): RawEntry[] => {
+  const rows = text.split(/\r?\n/).map(l => l.trim()).filter(l => l && !l.startsWith('#')).map(splitCsvLine);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(c => c.toLowerCase());
+  const hasHeader = header.includes('word');
+  const fields = Object.keys(CSV_COLUMNS) as (keyof RawEntry)[];
+  const columns = fields.map((field, i) => [field, hasHeader ? header.findIndex(h => CSV_COLUMNS[field].includes(h)) : i] as const);
+  return rows.slice(hasHeader ? 1 : 0).map(cells => {
+    const entry: RawEntry = {};
+    columns.forEach(([field, col]) => {
+      if (col >= 0 && cells[col]) entry[field] = cells[col];
+    });
+    return entry;
+  });
+};
+
+/**
+ * JSON: either an array of words / { word, audio, definition, sentence,
+ * partOfSpeech, origin } objects, or
+ * { name, language, words: [...] } where words has the same shape.
+ */
+const parseJson = (text: string): { name?: string; language?: LanguageCode; entries: RawEntry[] } => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.words;
+  if (!Array.isArray(list)) throw new Error('Expected an array of words or an object with a "words" array.');
+  return {
+    name: !Array.isArray(data) && typeof data.name === 'string' ? data.name : undefined,
+    language: !Array.isArray(data) && isLanguageCode(data.language) ? data.language : undefined,
+    entries: list.map((e: unknown) => (typeof e === 'string' ? { word: e } : (e as RawEntry) ?? {})),
+  };
+};
+
+/**
+ * Upper-cases each word for its language and checks it only uses that
+ * language's letters, plus punctuation (spaces, hyphens, apostrophes,
+ * full stops) that is filled in for the player.
+ */
+export const validateWords = (entries: RawEntry[], language: LanguageCode = DEFAULT_LANGUAGE): { words: WordData[]; issues: WordListIssue[] } => {
+  const words: WordData[] = [];
+  const issues: WordListIssue[] = [];
+  const seen = new Set<string>();
+
+  entries.forEach((entry, i) => {
+    const raw = typeof entry.word === 'string' ? entry.word.trim() : '';
+    const word = toWordCase(raw, language).replace(/\s+/g, ' ');
+    if (!word) {
+      issues.push({ severity: 'error', word: `#${i + 1}`, message: 'Entry has no word.' });
+      return;
+    }
+    const unknown = [...new Set([...word].filter(ch => !isLetterOf(ch, language) && !isPrefilled(ch)))];
+    if (unknown.length > 0) {
+      issues.push({ severity: 'error', word, message: `Not in the ${getLanguage(language).label} alphabet: ${unknown.join(' ')}` });
+      return;
+    }
+    if (spelledLetters(word).length === 0) {
+      issues.push({ severity: 'error', word, message: 'Entry has no letters to spell.' });
+      return;
+    }
+    if (seen.has(word)) {
+      issues.push({ severity: 'warning', word, message: 'Duplicate word, kept the first one.' });
+      return;
+    }
+    seen.add(word);
+    const audio = typeof entry.audio === 'string' && entry.audio.trim() ? entry.audio.trim() : undefined;
+    if (!audio) issues.push({ severity: 'warning', word, message: 'No audio file, the spoken voice will be used.' });
+    const info: Partial<Record<WordInfoField, string>> = {};
+    INFO_FIELDS.forEach(field => {
+      const value = entry[field];
+      if (typeof value === 'string' && value.trim()) info[field] = value.trim();
+    });
+    words.push({ word, audio, ...info });
+  });
+
+  return { words, issues };
+};
+
+/**
+ * Reads an imported file. The language is the one asked for, else the one
+ * a JSON file declares, else English.
+ */
+export const parseWordListFile = (text: string, fileName: string, requestedLanguage?: LanguageCode): ParsedWordList => {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  try {
+    const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+    const { name, language: declared, entries } = isJson ? parseJson(text) : { name: undefined, language: undefined, entries: parseCsv(text) };
+    const language = requestedLanguage ?? declared ?? DEFAULT_LANGUAGE;
+    return { name: name || baseName, language, ...validateWords(entries, language) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { name: baseName, language: requestedLanguage ?? DEFAULT_LANGUAGE, words: [], issues: [{ severity: 'error', word: fileName, message: `Could not read file: ${message}` }] };
+  }
+};
+
+/** Checks every audio path with a HEAD request and reports the ones that do not resolve. */
+export const findMissingAudio = async (words: WordData[]): Promise<WordListIssue[]> => {
+  const results = await Promise.all(words.filter(w => w.audio).map(async (w) => {
+    try {
+      const res = await fetch(w.audio!, { method: 'HEAD' });
+      return res.ok ? null : w;
+    } catch {
+      return w;
+    }
+  }));
+  return results.filter((w): w is WordData => w !== null).map(w => ({
+    severity: 'warning',
+    word: w.word,
+    message: `Audio "${w.audio}" not found, the spoken voice will be used.`,
+  }));
+};
+
+/** A stored word, keeping only the fields that are strings; null when it has no word. */
+const sanitizeStoredWord = (raw: unknown): WordData | null => {
+  if (!isRecord(raw) || typeof raw.word !== 'string' || !raw.word) return null;
+  const entry: WordData = { word: raw.word };
+  if (typeof raw.audio === 'string') entry.audio = raw.audio;
+  INFO_FIELDS.forEach(field => {
+    if (typeof raw[field] === 'string') entry[field] = raw[field];
+  });
+  return entry;
+};
+
+/** A stored list with its broken words dropped; null when it can't be a list at all. */
+const sanitizeStoredList = (raw: unknown): WordList | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !Array.isArray(raw.words)) return null;
+  const list: WordList = {
+    id: raw.id,
+    name: raw.name,
+    words: raw.words.map(sanitizeStoredWord).filter((w): w is WordData => !!w),
+  };
+  if (isLanguageCode(raw.language)) list.language = raw.language;
+  if (raw.assignment !== undefined) list.assignment = sanitizeAssignmentSettings(raw.assignment);
+  return list;
+};
+
+export const loadCustomLists = (): WordList[] => {
+  try {
+    const saved = localStorage.getItem(LISTS_KEY);
+    const lists = saved ? JSON.parse(saved) : [];
+    return Array.isArray(lists) ? lists.map(sanitizeStoredList).filter((l): l is WordList => !!l) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomLists = (lists: WordList[]) => {
+  localStorage.setItem(LISTS_KEY, JSON.stringify(lists.filter(l => !l.isBuiltIn)));
+};
+
+export const loadAllLists = (): WordList[] => [DEFAULT_WORD_LIST, ...loadCustomLists()];
+
+export const createWordList = (name: string, words: WordData[], language: LanguageCode = DEFAULT_LANGUAGE): WordList => ({
+  id: `list-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`,
+  name: name.trim() || 'My Words',
+  language,
+  words,
+});